@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Edge, type Graph, Node} from './model';
+
+/**
+ * @fileOverview Utilities for finding the cycles in a graph.
+ */
+
+/**
+ * The cycles found in a graph.
+ */
+export interface CycleAnalysis {
+  /**
+   * The strongly connected components of the graph that contain a cycle: sets
+   * of nodes that can each be reached from every other node in the set. Nodes
+   * that are not part of any cycle are left out.
+   */
+  components: Node[][];
+
+  /** Edges that are part of at least one cycle. */
+  cycleEdges: Set<Edge>;
+
+  /**
+   * Edges that close a cycle, found by a depth first search from the nodes in
+   * graph order. Removing them leaves the graph acyclic. These are typically
+   * (but not always) the edges that the layout reverses.
+   */
+  backEdges: Set<Edge>;
+}
+
+/**
+ * Returns true if the graph has no cycles.
+ */
+export function isAcyclic(graph: Graph): boolean {
+  return analyzeCycles(graph).components.length === 0;
+}
+
+/**
+ * Finds the cycles in a graph. Edges to or from nodes that are not in the
+ * graph are ignored.
+ */
+export function analyzeCycles(graph: Graph): CycleAnalysis {
+  const outEdges = getOutEdges(graph);
+  const componentIndices = findComponents(graph.nodes, outEdges);
+
+  const components = new Map<number, Node[]>();
+  const cycleEdges = new Set<Edge>();
+  for (const [node, edges] of outEdges) {
+    for (const edge of edges) {
+      // Self-loops are cycles on their own, while other edges are in a cycle
+      // exactly when both ends are in the same component.
+      const index = componentIndices.get(node);
+      if (index !== undefined && index === componentIndices.get(edge.dest)) {
+        cycleEdges.add(edge);
+        components.set(index, []);
+      }
+    }
+  }
+
+  for (const node of graph.nodes) {
+    const component = components.get(componentIndices.get(node)!);
+    if (component) {
+      component.push(node);
+    }
+  }
+
+  return {
+    components: [...components.values()],
+    cycleEdges,
+    backEdges: findBackEdges(graph.nodes, outEdges),
+  };
+}
+
+/**
+ * Returns the edges leaving every node in the graph.
+ */
+function getOutEdges(graph: Graph): Map<Node, Edge[]> {
+  const outEdges = new Map<Node, Edge[]>(graph.nodes.map(n => [n, []]));
+  for (const edge of graph.edges) {
+    const edges = outEdges.get(edge.src);
+    if (edges && outEdges.has(edge.dest)) {
+      edges.push(edge);
+    }
+  }
+  return outEdges;
+}
+
+/**
+ * Assigns every node the index of its strongly connected component, using
+ * Tarjan's algorithm. The search is iterative, so that long chains of nodes
+ * don't overflow the stack.
+ */
+function findComponents(
+    nodes: Node[], outEdges: Map<Node, Edge[]>): Map<Node, number> {
+  const componentIndices = new Map<Node, number>();
+  const visitIndices = new Map<Node, number>();
+  const lowLinks = new Map<Node, number>();
+  const componentStack: Node[] = [];
+  const onComponentStack = new Set<Node>();
+  let nextComponent = 0;
+
+  for (const root of nodes) {
+    if (visitIndices.has(root)) {
+      continue;
+    }
+
+    // Each frame holds a node and the index of the next edge to follow.
+    const frames: Array<{node: Node, edge: number}> = [];
+    const visit = (node: Node) => {
+      visitIndices.set(node, visitIndices.size);
+      lowLinks.set(node, visitIndices.get(node)!);
+      componentStack.push(node);
+      onComponentStack.add(node);
+      frames.push({node, edge: 0});
+    };
+    visit(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const edges = outEdges.get(frame.node)!;
+
+      if (frame.edge < edges.length) {
+        const dest = edges[frame.edge++].dest;
+        if (!visitIndices.has(dest)) {
+          visit(dest);
+        } else if (onComponentStack.has(dest)) {
+          lowLinks.set(
+              frame.node,
+              Math.min(lowLinks.get(frame.node)!, visitIndices.get(dest)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      const node = frame.node;
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].node;
+        lowLinks.set(
+            parent, Math.min(lowLinks.get(parent)!, lowLinks.get(node)!));
+      }
+
+      // The node is the root of a component: pop the whole component.
+      if (lowLinks.get(node) === visitIndices.get(node)) {
+        let member: Node|undefined;
+        do {
+          member = componentStack.pop()!;
+          onComponentStack.delete(member);
+          componentIndices.set(member, nextComponent);
+        } while (member !== node);
+        nextComponent++;
+      }
+    }
+  }
+  return componentIndices;
+}
+
+/**
+ * Returns the edges that lead back to a node that is still being searched,
+ * in a depth first search from the nodes in order.
+ */
+function findBackEdges(
+    nodes: Node[], outEdges: Map<Node, Edge[]>): Set<Edge> {
+  const backEdges = new Set<Edge>();
+  const visited = new Set<Node>();
+  const searching = new Set<Node>();
+
+  for (const root of nodes) {
+    if (visited.has(root)) {
+      continue;
+    }
+
+    const frames: Array<{node: Node, edge: number}> = [{node: root, edge: 0}];
+    visited.add(root);
+    searching.add(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const edges = outEdges.get(frame.node)!;
+
+      if (frame.edge < edges.length) {
+        const edge = edges[frame.edge++];
+        if (searching.has(edge.dest)) {
+          backEdges.add(edge);
+        } else if (!visited.has(edge.dest)) {
+          visited.add(edge.dest);
+          searching.add(edge.dest);
+          frames.push({node: edge.dest, edge: 0});
+        }
+        continue;
+      }
+
+      searching.delete(frame.node);
+      frames.pop();
+    }
+  }
+  return backEdges;
+}
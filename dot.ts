@@ -0,0 +1,786 @@
+/**
+ * @license
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {getGroupParents} from './groups';
+import {Edge, type Graph, type LayoutOptions, Node, PortType, RankDirection} from './model';
+
+/**
+ * @fileOverview Conversion between graphs and the Graphviz DOT language.
+ *
+ * Only directed graphs are supported. Subgraphs whose name starts with
+ * "cluster" become groups, and node width and height attributes (in inches)
+ * become the node dimensions (in pixels). Ports that edges are attached to (eg
+ * a:out -> b:in) become output and input ports of their nodes. Every other
+ * attribute, including labels, is kept in the data of the node, edge or group
+ * it applies to.
+ *
+ * See https://graphviz.org/doc/info/lang.html for the language grammar.
+ */
+
+/**
+ * The number of pixels per inch, the unit used by DOT for node dimensions.
+ */
+const PIXELS_PER_INCH = 72;
+
+/**
+ * The DOT default node width, in inches.
+ */
+const DEFAULT_NODE_WIDTH = 0.75;
+
+/**
+ * The DOT default node height, in inches.
+ */
+const DEFAULT_NODE_HEIGHT = 0.5;
+
+/**
+ * Prefix DOT requires in the name of subgraphs that are drawn as clusters.
+ */
+const CLUSTER_PREFIX = 'cluster';
+
+/**
+ * Keywords of the DOT language. These are case insensitive.
+ */
+const KEYWORDS = ['digraph', 'edge', 'graph', 'node', 'strict', 'subgraph'];
+
+/**
+ * Punctuation characters that are tokens by themselves.
+ */
+const PUNCTUATION = '{}[]=;,:+';
+
+const IDENTIFIER_REGEX = /^[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*$/;
+const NUMERAL_REGEX = /^-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)$/;
+
+/**
+ * Attributes of a node, edge or group, keyed by attribute name.
+ */
+export interface DotAttributes {
+  [name: string]: string;
+}
+
+/**
+ * The result of parsing a DOT graph.
+ */
+export interface DotGraph {
+  /** The parsed graph, with the attributes of each element as its data. */
+  graph: Graph<DotAttributes, DotAttributes>;
+
+  /** Layout options derived from the graph attributes. */
+  layout: LayoutOptions;
+}
+
+/**
+ * An error in DOT input, located by its line and column (both starting at 1).
+ */
+export class DotParseError extends Error {
+  constructor(
+      readonly reason: string,
+      readonly line: number,
+      readonly column: number,
+  ) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = 'DotParseError';
+  }
+}
+
+/**
+ * Parses a directed graph written in the DOT language. Throws a DotParseError
+ * if the input is invalid.
+ */
+export function parseDot(source: string): DotGraph {
+  return new DotParser(tokenize(source)).parse();
+}
+
+/**
+ * Writes a graph in the DOT language. The rank direction of the layout is
+ * written as the rankdir attribute.
+ *
+ * String, number and boolean properties of node, edge and group data are
+ * written as attributes. Groups are written as cluster subgraphs, so their
+ * ids are prefixed with "cluster" unless they already are.
+ */
+export function toDot(graph: Graph, layout: LayoutOptions = {}): string {
+  const lines = ['digraph {'];
+  if (layout.rankDirection) {
+    lines.push(`  rankdir=${layout.rankDirection};`);
+  }
+
+  const groups = graph.groups || [];
+  const parents = getGroupParents(groups);
+
+  const writeContents = (parentId: string|undefined, indent: string) => {
+    for (const group of groups) {
+      if (parents.get(group.id) !== parentId) {
+        continue;
+      }
+      const id = group.id.startsWith(CLUSTER_PREFIX) ?
+          group.id :
+          `${CLUSTER_PREFIX}_${group.id}`;
+      lines.push(`${indent}subgraph ${quoteId(id)} {`);
+      for (const [name, value] of getDataAttributes(group.data)) {
+        lines.push(`${indent}  ${quoteId(name)}=${quoteId(value)};`);
+      }
+      writeContents(group.id, `${indent}  `);
+      lines.push(`${indent}}`);
+    }
+
+    for (const node of graph.nodes) {
+      if (parents.get(node.id) !== parentId) {
+        continue;
+      }
+      const attributes: Array<[string, string]> = [
+        ['width', formatInches(node.width)],
+        ['height', formatInches(node.height)],
+        ...getDataAttributes(node.data),
+      ];
+      lines.push(
+          `${indent}${quoteId(node.id)} ${formatAttributes(attributes)};`);
+    }
+  };
+  writeContents(undefined, '  ');
+
+  const formatEndpoint = (node: Node, port?: string) =>
+      port === undefined ? quoteId(node.id) :
+                           `${quoteId(node.id)}:${quoteId(port)}`;
+
+  for (const edge of graph.edges) {
+    const attributes = getDataAttributes(edge.data);
+    const statement = `${formatEndpoint(edge.src, edge.srcPort)} -> ` +
+        formatEndpoint(edge.dest, edge.destPort);
+    lines.push(
+        attributes.length ? `  ${statement} ${formatAttributes(attributes)};` :
+                            `  ${statement};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+type DotTokenType = 'id'|'punctuation'|'edgeop'|'eof';
+
+/**
+ * A token of DOT input.
+ */
+interface DotToken {
+  type: DotTokenType;
+  value: string;
+
+  /** True for quoted and html strings, which are never keywords. */
+  quoted?: boolean;
+
+  line: number;
+  column: number;
+}
+
+/**
+ * A node referenced by an edge statement, and the port the edge is attached to.
+ */
+interface DotEndpoint {
+  id: string;
+  port?: string;
+}
+
+/**
+ * Attribute defaults, and the cluster that statements apply to, within a
+ * graph or subgraph.
+ */
+interface DotScope {
+  nodeDefaults: DotAttributes;
+  edgeDefaults: DotAttributes;
+
+  /** The innermost cluster containing the statements, if any. */
+  group?: Node<DotAttributes>;
+
+  /** True if this scope is the body of the cluster itself. */
+  isCluster: boolean;
+
+  /** True if this scope is the body of the graph itself. */
+  isRoot: boolean;
+
+  /** Ids of the nodes mentioned in this scope, including in subgraphs. */
+  members: Set<string>;
+}
+
+/**
+ * Splits DOT input into tokens, skipping whitespace and comments.
+ */
+function tokenize(source: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  let index = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      if (source[index] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      index++;
+    }
+  };
+
+  const skipToEndOfLine = () => {
+    while (index < source.length && source[index] !== '\n') {
+      advance();
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const next = source[index + 1];
+    const start = {line, column};
+
+    if (/\s/.test(char)) {
+      advance();
+    } else if (char === '/' && next === '/') {
+      skipToEndOfLine();
+    } else if (char === '#' && column === 1) {
+      // Lines starting with # are treated as C preprocessor output.
+      skipToEndOfLine();
+    } else if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', index + 2);
+      if (end === -1) {
+        throw new DotParseError('Unterminated comment', line, column);
+      }
+      advance(end + 2 - index);
+    } else if (char === '-' && (next === '>' || next === '-')) {
+      tokens.push({type: 'edgeop', value: char + next, ...start});
+      advance(2);
+    } else if (PUNCTUATION.includes(char)) {
+      tokens.push({type: 'punctuation', value: char, ...start});
+      advance();
+    } else if (char === '"') {
+      advance();
+      let value = '';
+      while (source[index] !== '"') {
+        if (index >= source.length) {
+          throw new DotParseError(
+              'Unterminated string', start.line, start.column);
+        }
+        if (source[index] === '\\' &&
+            (source[index + 1] === '"' || source[index + 1] === '\\')) {
+          value += source[index + 1];
+          advance(2);
+        } else if (source[index] === '\\' && source[index + 1] === '\n') {
+          // Escaped newlines continue the string on the next line.
+          advance(2);
+        } else {
+          value += source[index];
+          advance();
+        }
+      }
+      advance();
+      tokens.push({type: 'id', value, quoted: true, ...start});
+    } else if (char === '<') {
+      // Html strings are delimited by balanced angle brackets.
+      let depth = 0;
+      let value = '';
+      do {
+        if (index >= source.length) {
+          throw new DotParseError(
+              'Unterminated html string', start.line, start.column);
+        }
+        if (source[index] === '<') {
+          depth++;
+        } else if (source[index] === '>') {
+          depth--;
+        }
+        value += source[index];
+        advance();
+      } while (depth > 0);
+      tokens.push(
+          {type: 'id', value: value.slice(1, -1), quoted: true, ...start});
+    } else {
+      const match = /^([A-Za-z0-9_.\u0080-\uffff]+|-[0-9.]+)/.exec(
+          source.slice(index, index + 256));
+      const value = match ? match[0] : '';
+      if (!value ||
+          !(IDENTIFIER_REGEX.test(value) || NUMERAL_REGEX.test(value))) {
+        throw new DotParseError(
+            `Unexpected ${value ? `'${value}'` : `character '${char}'`}`,
+            line, column);
+      }
+      tokens.push({type: 'id', value, ...start});
+      advance(value.length);
+    }
+  }
+
+  tokens.push({type: 'eof', value: '', line, column});
+  return tokens;
+}
+
+/**
+ * Builds a graph from DOT tokens, following the grammar at
+ * https://graphviz.org/doc/info/lang.html.
+ */
+class DotParser {
+  private index = 0;
+
+  /** Attributes of every node, keyed by id in the order they appear. */
+  private readonly nodeAttributes = new Map<string, DotAttributes>();
+
+  /** Attributes of every cluster, keyed by id. */
+  private readonly groups = new Map<string, Node<DotAttributes>>();
+
+  /** The cluster containing every node, keyed by node id. */
+  private readonly nodeGroups = new Map<string, string>();
+
+  private readonly edges: Array<{
+    src: DotEndpoint,
+    dest: DotEndpoint,
+    attributes: DotAttributes,
+  }> = [];
+
+  private readonly layout: LayoutOptions = {};
+
+  constructor(private readonly tokens: DotToken[]) {}
+
+  parse(): DotGraph {
+    if (this.isKeyword(this.peek(), 'strict')) {
+      this.next();
+    }
+
+    const kind = this.next();
+    if (this.isKeyword(kind, 'graph')) {
+      throw this.error(kind, 'Only directed graphs (digraph) are supported');
+    } else if (!this.isKeyword(kind, 'digraph')) {
+      throw this.error(kind, `Expected 'digraph' but found ${describe(kind)}`);
+    }
+
+    if (this.peek().type === 'id') {
+      this.next();
+    }
+
+    this.expect('{');
+    this.parseStatements({
+      nodeDefaults: {},
+      edgeDefaults: {},
+      isCluster: false,
+      isRoot: true,
+      members: new Set(),
+    });
+    this.expect('}');
+
+    const end = this.peek();
+    if (end.type !== 'eof') {
+      throw this.error(end, `Unexpected ${describe(end)} after the graph`);
+    }
+
+    return {graph: this.buildGraph(), layout: this.layout};
+  }
+
+  private buildGraph(): Graph<DotAttributes, DotAttributes> {
+    const nodes = new Map<string, Node<DotAttributes>>();
+    for (const [id, attributes] of this.nodeAttributes) {
+      const {width, height, ...data} = attributes;
+      nodes.set(id, {
+        id,
+        width: Number(width || DEFAULT_NODE_WIDTH) * PIXELS_PER_INCH,
+        height: Number(height || DEFAULT_NODE_HEIGHT) * PIXELS_PER_INCH,
+        data,
+      });
+    }
+
+    // Edges between the same pair of nodes are given ids to tell them apart.
+    const edgeCounts = new Map<string, number>();
+    const edges = this.edges.map(({src, dest, attributes}) => {
+      const edge: Edge<DotAttributes, DotAttributes> = {
+        src: nodes.get(src.id)!,
+        dest: nodes.get(dest.id)!,
+        points: [],
+        data: attributes,
+      };
+      const pair = JSON.stringify([src.id, dest.id]);
+      const count = edgeCounts.get(pair) || 0;
+      edgeCounts.set(pair, count + 1);
+      if (count > 0) {
+        edge.id = `${src.id}-${dest.id}-${count}`;
+      }
+      if (src.port !== undefined) {
+        edge.srcPort = src.port;
+        addPort(edge.src, src.port, PortType.OUTPUT);
+      }
+      if (dest.port !== undefined) {
+        edge.destPort = dest.port;
+        addPort(edge.dest, dest.port, PortType.INPUT);
+      }
+      return edge;
+    });
+
+    const graph: Graph<DotAttributes, DotAttributes> = {
+      nodes: [...nodes.values()],
+      edges,
+    };
+    if (this.groups.size) {
+      graph.groups = [...this.groups.values()];
+    }
+    return graph;
+  }
+
+  private parseStatements(scope: DotScope) {
+    while (!this.isPunctuation(this.peek(), '}') &&
+           this.peek().type !== 'eof') {
+      this.parseStatement(scope);
+      if (this.isPunctuation(this.peek(), ';')) {
+        this.next();
+      }
+    }
+  }
+
+  private parseStatement(scope: DotScope) {
+    const token = this.peek();
+
+    if (this.isKeyword(token, 'graph')) {
+      this.next();
+      const attributes = this.parseAttributeLists();
+      for (const name of Object.keys(attributes)) {
+        this.setGraphAttribute(scope, name, attributes[name]);
+      }
+    } else if (this.isKeyword(token, 'node')) {
+      this.next();
+      Object.assign(scope.nodeDefaults, this.parseAttributeLists());
+    } else if (this.isKeyword(token, 'edge')) {
+      this.next();
+      Object.assign(scope.edgeDefaults, this.parseAttributeLists());
+    } else if (
+        this.isKeyword(token, 'subgraph') || this.isPunctuation(token, '{')) {
+      const members = this.parseSubgraph(scope);
+      if (this.peek().type === 'edgeop') {
+        this.parseEdges(scope, members.map(id => ({id})));
+      }
+    } else if (token.type === 'id') {
+      const id = this.parseId();
+      if (this.isPunctuation(this.peek(), '=')) {
+        this.next();
+        const valueToken = this.peek();
+        const value = this.parseId();
+        this.validateAttribute(id, value, valueToken);
+        this.setGraphAttribute(scope, id, value);
+        return;
+      }
+
+      const port = this.parsePort();
+      if (this.peek().type === 'edgeop') {
+        this.declareNode(scope, id, {});
+        this.parseEdges(scope, [{id, port}]);
+      } else {
+        this.declareNode(scope, id, this.parseAttributeLists());
+      }
+    } else {
+      throw this.error(token, `Unexpected ${describe(token)}`);
+    }
+  }
+
+  /**
+   * Parses a subgraph, returning the ids of the nodes it contains.
+   */
+  private parseSubgraph(parent: DotScope): string[] {
+    let id: string|undefined;
+    if (this.isKeyword(this.peek(), 'subgraph')) {
+      this.next();
+      if (this.peek().type === 'id') {
+        id = this.parseId();
+      }
+    }
+
+    let group = parent.group;
+    const isCluster = id !== undefined && id.startsWith(CLUSTER_PREFIX);
+    if (isCluster) {
+      group = this.groups.get(id!);
+      if (!group) {
+        group = {id: id!, width: 0, height: 0, children: [], data: {}};
+        this.groups.set(group.id, group);
+        if (parent.group) {
+          parent.group.children!.push(group.id);
+        }
+      }
+    }
+
+    const scope: DotScope = {
+      nodeDefaults: {...parent.nodeDefaults},
+      edgeDefaults: {...parent.edgeDefaults},
+      group,
+      isCluster,
+      isRoot: false,
+      members: new Set(),
+    };
+
+    this.expect('{');
+    this.parseStatements(scope);
+    this.expect('}');
+
+    for (const member of scope.members) {
+      parent.members.add(member);
+    }
+    return [...scope.members];
+  }
+
+  /**
+   * Parses the rest of an edge statement, whose first operand has already
+   * been parsed. Chained edges (a -> b -> c) and subgraph operands connecting
+   * every node within them are supported.
+   */
+  private parseEdges(scope: DotScope, first: DotEndpoint[]) {
+    const operands = [first];
+    while (this.peek().type === 'edgeop') {
+      const op = this.next();
+      if (op.value !== '->') {
+        throw this.error(op, `Undirected edge '${op.value}' in a digraph`);
+      }
+
+      const token = this.peek();
+      if (this.isKeyword(token, 'subgraph') ||
+          this.isPunctuation(token, '{')) {
+        operands.push(this.parseSubgraph(scope).map(id => ({id})));
+      } else {
+        const id = this.parseId();
+        const port = this.parsePort();
+        this.declareNode(scope, id, {});
+        operands.push([{id, port}]);
+      }
+    }
+
+    const attributes = {...scope.edgeDefaults, ...this.parseAttributeLists()};
+    for (let i = 0; i < operands.length - 1; i++) {
+      for (const src of operands[i]) {
+        for (const dest of operands[i + 1]) {
+          this.edges.push({src, dest, attributes: {...attributes}});
+        }
+      }
+    }
+  }
+
+  /**
+   * Parses the port of a node reference, if any. Compass points following the
+   * port (eg a:out:s) are skipped, as edges always leave and enter nodes along
+   * the direction of the layout.
+   */
+  private parsePort(): string|undefined {
+    let port: string|undefined;
+    while (this.isPunctuation(this.peek(), ':')) {
+      this.next();
+      const id = this.parseId();
+      if (port === undefined) {
+        port = id;
+      }
+    }
+    return port;
+  }
+
+  /**
+   * Parses any number of bracketed attribute lists into a single object.
+   */
+  private parseAttributeLists(): DotAttributes {
+    const attributes: DotAttributes = {};
+    while (this.isPunctuation(this.peek(), '[')) {
+      this.next();
+      while (!this.isPunctuation(this.peek(), ']')) {
+        const name = this.parseId();
+        this.expect('=');
+        const valueToken = this.peek();
+        const value = this.parseId();
+        this.validateAttribute(name, value, valueToken);
+        attributes[name] = value;
+
+        const separator = this.peek();
+        if (this.isPunctuation(separator, ',') ||
+            this.isPunctuation(separator, ';')) {
+          this.next();
+        }
+      }
+      this.next();
+    }
+    return attributes;
+  }
+
+  /**
+   * Checks the value of attributes that are converted rather than kept as
+   * strings.
+   */
+  private validateAttribute(name: string, value: string, token: DotToken) {
+    if ((name === 'width' || name === 'height') &&
+        !(NUMERAL_REGEX.test(value) && Number(value) >= 0)) {
+      throw this.error(
+          token, `Expected a positive number for ${name} but found '${value}'`);
+    }
+
+    const directions = Object.values(RankDirection) as string[];
+    if (name === 'rankdir' && !directions.includes(value)) {
+      throw this.error(
+          token,
+          `Expected one of ${directions.join(', ')} for rankdir but found ` +
+              `'${value}'`);
+    }
+  }
+
+  /**
+   * Applies an attribute of the graph or subgraph. Attributes of the graph
+   * configure the layout, while attributes of clusters are kept in the data
+   * of the group. Attributes of other subgraphs are ignored.
+   */
+  private setGraphAttribute(scope: DotScope, name: string, value: string) {
+    if (scope.isRoot && name === 'rankdir') {
+      this.layout.rankDirection = value as RankDirection;
+    } else if (scope.isCluster) {
+      scope.group!.data![name] = value;
+    }
+  }
+
+  /**
+   * Adds a node to the graph if it is new, and merges in its attributes.
+   */
+  private declareNode(scope: DotScope, id: string, attributes: DotAttributes) {
+    const existing = this.nodeAttributes.get(id);
+    if (existing) {
+      Object.assign(existing, attributes);
+    } else {
+      this.nodeAttributes.set(id, {...scope.nodeDefaults, ...attributes});
+    }
+
+    // Like Graphviz, a node belongs to the first cluster it appears in.
+    if (scope.group && !this.nodeGroups.has(id)) {
+      scope.group.children!.push(id);
+      this.nodeGroups.set(id, scope.group.id);
+    }
+    scope.members.add(id);
+  }
+
+  /**
+   * Parses an id, including quoted strings concatenated with '+'.
+   */
+  private parseId(): string {
+    const token = this.next();
+    if (token.type !== 'id' || this.isAnyKeyword(token)) {
+      throw this.error(token, `Expected an id but found ${describe(token)}`);
+    }
+
+    let value = token.value;
+    while (token.quoted && this.isPunctuation(this.peek(), '+')) {
+      this.next();
+      const part = this.next();
+      if (part.type !== 'id' || !part.quoted) {
+        throw this.error(
+            part, `Expected a quoted string but found ${describe(part)}`);
+      }
+      value += part.value;
+    }
+    return value;
+  }
+
+  private expect(punctuation: string) {
+    const token = this.next();
+    if (!this.isPunctuation(token, punctuation)) {
+      throw this.error(
+          token, `Expected '${punctuation}' but found ${describe(token)}`);
+    }
+  }
+
+  private peek(): DotToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): DotToken {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isPunctuation(token: DotToken, value: string): boolean {
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private isKeyword(token: DotToken, keyword: string): boolean {
+    return token.type === 'id' && !token.quoted &&
+        token.value.toLowerCase() === keyword;
+  }
+
+  private isAnyKeyword(token: DotToken): boolean {
+    return KEYWORDS.some(keyword => this.isKeyword(token, keyword));
+  }
+
+  private error(token: DotToken, reason: string): DotParseError {
+    return new DotParseError(reason, token.line, token.column);
+  }
+}
+
+/**
+ * Describes a token for use in error messages.
+ */
+function describe(token: DotToken): string {
+  return token.type === 'eof' ? 'the end of input' : `'${token.value}'`;
+}
+
+/**
+ * Adds a port to a node, unless it already has a port of that id and type.
+ */
+function addPort(node: Node, id: string, type: PortType) {
+  node.ports = node.ports || [];
+  if (!node.ports.some(port => port.id === id && port.type === type)) {
+    node.ports.push({id, type});
+  }
+}
+
+/**
+ * Returns the string, number and boolean properties of element data as
+ * attributes. Width and height are left out, as they come from the element.
+ */
+function getDataAttributes(data: unknown): Array<[string, string]> {
+  if (typeof data !== 'object' || data === null) {
+    return [];
+  }
+
+  const attributes: Array<[string, string]> = [];
+  for (const [name, value] of Object.entries(data)) {
+    if (name === 'width' || name === 'height') {
+      continue;
+    }
+    if (typeof value === 'string' || typeof value === 'number' ||
+        typeof value === 'boolean') {
+      attributes.push([name, String(value)]);
+    }
+  }
+  return attributes;
+}
+
+function formatAttributes(attributes: Array<[string, string]>): string {
+  const formatted =
+      attributes.map(([name, value]) => `${quoteId(name)}=${quoteId(value)}`);
+  return `[${formatted.join(', ')}]`;
+}
+
+/**
+ * Converts a dimension in pixels to inches.
+ */
+function formatInches(pixels: number): string {
+  return String(Number((pixels / PIXELS_PER_INCH).toFixed(4)));
+}
+
+/**
+ * Returns the id as it should be written in DOT, quoting it when needed.
+ */
+function quoteId(id: string): string {
+  const isPlain = (IDENTIFIER_REGEX.test(id) &&
+                   !KEYWORDS.includes(id.toLowerCase())) ||
+      NUMERAL_REGEX.test(id);
+  // Backslashes are escaped too, so that one at the end of an id isn't read as
+  // escaping the closing quote.
+  return isPlain ? id : `"${id.replace(/[\\"]/g, '\\$&')}"`;
+}
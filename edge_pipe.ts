@@ -17,8 +17,8 @@
 
 import {Pipe, PipeTransform} from '@angular/core';
 
-import {Point} from './model';
-import {pointsToLines} from './paths';
+import {Edge, LayoutOptions, Point} from './model';
+import {edgePath, pointsToLines} from './paths';
 
 /**
  * An Angular pipe that, given a list of X/Y coordinates, returns an SVG path
@@ -34,3 +34,23 @@ export class EdgePipe implements PipeTransform {
     return pointsToLines(points);
   }
 }
+
+/**
+ * An Angular pipe that, given an edge and the graph's layout options, returns
+ * an SVG path string drawing the edge in the layout's edgeStyle.
+ *
+ * The pipe is impure, as the path depends on the positions of the edge's nodes
+ * which change without the edge itself being replaced.
+ *
+ * eg: <svg:path [attr.d]="edge | edgeStylePath:layout"></svg:path>
+ */
+@Pipe({
+  standalone: false,
+  name: 'edgeStylePath',
+  pure: false,
+})
+export class EdgeStylePipe implements PipeTransform {
+  transform(edge: Edge, layout?: LayoutOptions, loopIndex = 0): string {
+    return edgePath(edge, layout, loopIndex);
+  }
+}
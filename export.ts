@@ -0,0 +1,239 @@
+/**
+ * @license
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileOverview Utilities to export a rendered graph as a standalone image.
+ */
+
+/**
+ * Padding (in world space) added around the graph contents when exporting.
+ */
+const EXPORT_PADDING = 20;
+
+/**
+ * Elements that are only used for interacting with the graph, which are left
+ * out of exported images.
+ */
+const EXCLUDED_SELECTORS = [
+  '.default-edge-click-region',
+  '.default-group-toggle',
+  '.drag-edge',
+  '.drag-node',
+  '.selection-box',
+];
+
+/**
+ * Style properties copied from the rendered graph onto the exported elements,
+ * so that the image looks the same without the component's stylesheet.
+ */
+const INLINED_STYLE_PROPERTIES = [
+  // SVG presentation
+  'display',
+  'dominant-baseline',
+  'fill',
+  'fill-opacity',
+  'opacity',
+  'rx',
+  'stroke',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'stroke-opacity',
+  'stroke-width',
+  'text-anchor',
+  'visibility',
+
+  // Text
+  'color',
+  'font-family',
+  'font-size',
+  'font-style',
+  'font-weight',
+  'line-height',
+  'text-align',
+  'white-space',
+
+  // Layout of html node content
+  'align-items',
+  'background-color',
+  'border-bottom-color',
+  'border-bottom-style',
+  'border-bottom-width',
+  'border-left-color',
+  'border-left-style',
+  'border-left-width',
+  'border-radius',
+  'border-right-color',
+  'border-right-style',
+  'border-right-width',
+  'border-top-color',
+  'border-top-style',
+  'border-top-width',
+  'box-sizing',
+  'flex-direction',
+  'height',
+  'justify-content',
+  'overflow',
+  'padding-bottom',
+  'padding-left',
+  'padding-right',
+  'padding-top',
+  'width',
+];
+
+/**
+ * A standalone svg image of a graph.
+ */
+export interface ExportedSvg {
+  /** The serialized svg document. */
+  svg: string;
+
+  /** The width of the image, in pixels. */
+  width: number;
+
+  /** The height of the image, in pixels. */
+  height: number;
+}
+
+/**
+ * Serializes a rendered graph to a standalone svg document showing the whole
+ * graph at a 1-to-1 scale, regardless of how the camera is panned or zoomed.
+ *
+ * The svg element must contain a root <g> element holding the graph contents,
+ * as required by the camera.
+ */
+export function exportSvg(svgEl: SVGSVGElement): ExportedSvg {
+  const rootEl = svgEl.querySelector<SVGGElement>('g');
+  if (!rootEl) {
+    throw new ReferenceError('A root <g> element is needed to export.');
+  }
+
+  const view = getView(svgEl.ownerDocument);
+  const clone = svgEl.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svgEl, clone, view);
+
+  for (const el of Array.from(
+           clone.querySelectorAll(EXCLUDED_SELECTORS.join(',')))) {
+    el.remove();
+  }
+
+  // Drop the camera's pan/zoom transform, and frame the contents instead.
+  // getBBox is measured in the root's own coordinate space, which excludes the
+  // transform applied to it.
+  const cloneRootEl = clone.querySelector('g')!;
+  cloneRootEl.removeAttribute('transform');
+  cloneRootEl.removeAttribute('style');
+
+  const bbox = rootEl.getBBox();
+  const x = bbox.x - EXPORT_PADDING;
+  const y = bbox.y - EXPORT_PADDING;
+  const width = Math.ceil(bbox.width + EXPORT_PADDING * 2);
+  const height = Math.ceil(bbox.height + EXPORT_PADDING * 2);
+
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+  clone.setAttribute('width', `${width}`);
+  clone.setAttribute('height', `${height}`);
+  clone.removeAttribute('class');
+  clone.removeAttribute('style');
+  clone.removeAttribute('tabindex');
+
+  const svg = new view.XMLSerializer().serializeToString(clone);
+  return {svg, width, height};
+}
+
+/**
+ * Rasterizes an exported svg to a png image. The scale multiplies the size of
+ * the image, eg 2 for high density displays.
+ *
+ * Note: some browsers refuse to rasterize svgs containing html, which is
+ * used to render nodes. The returned promise is rejected in that case.
+ */
+export function svgToPng(
+    exported: ExportedSvg,
+    scale: number,
+    document: Document,
+    ): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const view = getView(document);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(exported.width * scale);
+    canvas.height = Math.ceil(exported.height * scale);
+
+    const image = new view.Image();
+    image.onload = () => {
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Unable to create a canvas to export to.'));
+        return;
+      }
+
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      try {
+        canvas.toBlob((blob) => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(new Error('Unable to export the graph to png.'));
+          }
+        }, 'image/png');
+      } catch (error) {
+        // Thrown if the browser considers the canvas tainted by the svg.
+        reject(error);
+      }
+    };
+    image.onerror = () => {
+      reject(new Error('Unable to load the exported svg.'));
+    };
+    image.src = 'data:image/svg+xml;charset=utf-8,' +
+        encodeURIComponent(exported.svg);
+  });
+}
+
+/**
+ * Returns the window of a document, rather than relying on globals.
+ */
+function getView(document: Document): Window&typeof globalThis {
+  const view = document.defaultView;
+  if (!view) {
+    throw new ReferenceError('A window is needed to export the graph.');
+  }
+  return view;
+}
+
+/**
+ * Copies the computed styles of every element in the source tree onto the
+ * matching element of its clone.
+ */
+function inlineStyles(source: Element, clone: Element, view: Window) {
+  const sourceEls = [source, ...Array.from(source.querySelectorAll('*'))];
+  const cloneEls = [clone, ...Array.from(clone.querySelectorAll('*'))];
+
+  sourceEls.forEach((sourceEl, i) => {
+    const cloneEl = cloneEls[i] as HTMLElement | SVGElement;
+    const computed = view.getComputedStyle(sourceEl);
+    const declarations: string[] = [];
+
+    for (const property of INLINED_STYLE_PROPERTIES) {
+      const value = computed.getPropertyValue(property);
+      if (value) {
+        declarations.push(`${property}: ${value}`);
+      }
+    }
+    cloneEl.setAttribute('style', declarations.join('; '));
+  });
+}
@@ -57,6 +57,22 @@ const MAC_ZOOM_SENSITIVITY = 0.09;
  */
 const PAN_INTO_VIEW_PADDING = 60;
 
+/**
+ * A number of units of extra padding (in world space) to apply around a region
+ * when fitting the camera to it.
+ */
+const FIT_REGION_PADDING = 20;
+
+/**
+ * The minimum zoom magnification.
+ */
+const MIN_ZOOM = 0.1;
+
+/**
+ * The maximum zoom magnification.
+ */
+const MAX_ZOOM = 2;
+
 
 /**
  * A camera for the graph that adds support for panning, zooming, and
@@ -132,6 +148,18 @@ export class GraphCamera {
 
   private stopSmoothPanAndZoomFn = () => {};
 
+  /** The minimum zoom magnification. */
+  private readonly minZoom: number;
+
+  /** The maximum zoom magnification. */
+  private readonly maxZoom: number;
+
+  /** How much zoomIn() and zoomOut() change the zoom level by. */
+  private readonly zoomSensitivity: number;
+
+  /** Padding added when zooming out to fit (see FIT_PADDING_PERCENT). */
+  private readonly fitPaddingPercent: number;
+
   /**
    * Emits an event whenever the camera is panned.
    */
@@ -151,6 +179,15 @@ export class GraphCamera {
           'A root <g> element is needed for the camera to work.');
     }
     const isMac = navigator.userAgent.includes('Macintosh');
+    const defaultMouseWheelZoomSensitivity =
+        isMac ? MAC_ZOOM_SENSITIVITY : ZOOM_SENSITIVITY;
+
+    this.minZoom = withDefault(options.minZoom, MIN_ZOOM);
+    this.maxZoom = withDefault(options.maxZoom, MAX_ZOOM);
+    this.zoomSensitivity =
+        withDefault(options.zoomSensitivity, ZOOM_SENSITIVITY);
+    this.fitPaddingPercent =
+        withDefault(options.fitPaddingPercent, FIT_PADDING_PERCENT);
 
     // Setup the svgPanZoom library.
     // Note: We cannot use 'fit' or 'contain' to re-position the graph in the
@@ -164,11 +201,12 @@ export class GraphCamera {
       fit: false,
       contain: false,
       center: true,
-      zoomScaleSensitivity: isMac ? MAC_ZOOM_SENSITIVITY : ZOOM_SENSITIVITY,
+      zoomScaleSensitivity: withDefault(
+          options.mouseWheelZoomSensitivity, defaultMouseWheelZoomSensitivity),
       mouseWheelZoomEnabled: options.mouseWheelZoomEnabled,
       panEnabled: true,
-      minZoom: 0.1,
-      maxZoom: 2,
+      minZoom: this.minZoom,
+      maxZoom: this.maxZoom,
       preventMouseEventsDefault: false,
       beforePan: ((oldPoint, point) => {
         // Round down pan values to the nearest pixel. This helps remove some
@@ -240,7 +278,7 @@ export class GraphCamera {
    */
   zoomIn() {
     const existing = this.panZoom.getZoom();
-    const scale = 1 + ZOOM_SENSITIVITY;
+    const scale = 1 + this.zoomSensitivity;
     const target = existing * scale;
     this.smoothZoom(target);
   }
@@ -250,7 +288,7 @@ export class GraphCamera {
    */
   zoomOut() {
     const existing = this.panZoom.getZoom();
-    const scale = 1 / (1 + ZOOM_SENSITIVITY);
+    const scale = 1 / (1 + this.zoomSensitivity);
     const target = existing * scale;
     this.smoothZoom(target);
   }
@@ -283,6 +321,17 @@ export class GraphCamera {
     this.panZoom.zoom(zoomLevel);
   }
 
+  /**
+   * Enables or disables panning the camera by dragging the mouse.
+   */
+  setPanEnabled(enabled: boolean) {
+    if (enabled) {
+      this.panZoom.enablePan();
+    } else {
+      this.panZoom.disablePan();
+    }
+  }
+
   /**
    * Smoothly pans to the specified point in camera space using an animation.
    */
@@ -340,6 +389,70 @@ export class GraphCamera {
     });
   }
 
+  /**
+   * Smoothly pans and zooms so a point in world space is centered in the
+   * camera at the requested magnification (the current one by default).
+   */
+  smoothCenterOn(point: Point, zoomLevel = this.getZoom(), durationMs = 250) {
+    // Ensure svgPanZooms cached sizes are correct.
+    this.panZoom.updateBBox();
+    this.panZoom.resize();
+
+    const targetPan = this.getPanToCenter(point, zoomLevel);
+    this.smoothPanAndZoom(targetPan, zoomLevel, durationMs);
+  }
+
+  /**
+   * Immediately pans so a point in world space is centered in the camera,
+   * keeping the current zoom level.
+   */
+  centerOn(point: Point) {
+    this.stopSmoothPanFn();
+    this.stopSmoothPanAndZoomFn();
+    this.panZoom.pan(this.getPanToCenter(point, this.getZoom()));
+  }
+
+  /**
+   * Returns the pan (in camera space) that centers a point in world space at
+   * the given zoom level.
+   */
+  private getPanToCenter(point: Point, zoomLevel: number): Point {
+    const sizes = (this.panZoom as SvgPanZoomWithSizes).getSizes();
+    return {
+      x: sizes.width / 2 - point.x * zoomLevel,
+      y: sizes.height / 2 - point.y * zoomLevel,
+    };
+  }
+
+  /**
+   * Pans and zooms so a rectangle in world space fills the camera, centered.
+   * See FitOptions for the defaults.
+   */
+  fitRegion(region: Rect, options: FitOptions = {}) {
+    const {
+      padding = FIT_REGION_PADDING,
+      maxZoom = this.maxZoom,
+      smooth = true,
+      durationMs = 250,
+    } = options;
+
+    // Ensure svgPanZooms cached sizes are correct.
+    this.panZoom.updateBBox();
+    this.panZoom.resize();
+
+    const {pan, zoom} =
+        this.getFitPanAndZoom(expandRectBy(region, padding), maxZoom);
+    if (smooth) {
+      this.smoothPanAndZoom(pan, zoom, durationMs);
+    } else {
+      this.stopSmoothPanFn();
+      this.stopSmoothZoomFn();
+      this.stopSmoothPanAndZoomFn();
+      this.panZoom.zoom(zoom);
+      this.panZoom.pan(pan);
+    }
+  }
+
   /**
    * Smoothly pans a node into view by the minimal amount necessary to make it
    * fully visible. Accepts optional padding to apply to the edges of the camera
@@ -422,7 +535,8 @@ export class GraphCamera {
       this.panZoom.zoom(1);
     } else {
       const currentZoom = this.panZoom.getZoom();
-      const zoomAdjustedForPadding = currentZoom * (1 - FIT_PADDING_PERCENT);
+      const zoomAdjustedForPadding =
+          currentZoom * (1 - this.fitPaddingPercent);
       this.panZoom.zoom(zoomAdjustedForPadding);
     }
   }
@@ -434,31 +548,48 @@ export class GraphCamera {
    * this.fitWithoutZoomingIn();
    * ```
    * but performs centering and fitting smoothly during `durationMs`.
+   */
+  private smoothCenterAndFitWithoutZoomingIn(durationMs: number) {
+    const {viewBox} = (this.panZoom as SvgPanZoomWithSizes).getSizes();
+    const region = {
+      top: viewBox.y,
+      left: viewBox.x,
+      right: viewBox.x + viewBox.width,
+      bottom: viewBox.y + viewBox.height,
+    };
+
+    const {pan, zoom} = this.getFitPanAndZoom(region, 1);
+    this.smoothPanAndZoom(pan, zoom, durationMs);
+  }
+
+  /**
+   * Returns the pan and zoom that center a region in world space and fit it
+   * within the camera, without zooming in beyond maxZoom. When zooming out to
+   * fit, some extra padding is added (see fitPaddingPercent).
    *
-   * Calculation of `newZoom` and `newPan` is referred from
+   * Calculation of the zoom and pan is referred from
    * https://github.com/ariutta/svg-pan-zoom/blob/master/src/svg-pan-zoom.js
    * `SvgPanZoom.prototype.fit`, `SvgPanZoom.prototype.center`.
    */
-  private smoothCenterAndFitWithoutZoomingIn(durationMs: number) {
+  private getFitPanAndZoom(region: Rect, maxZoom: number):
+      {pan: Point, zoom: number} {
     const sizes = (this.panZoom as SvgPanZoomWithSizes).getSizes();
+    const width = region.right - region.left;
+    const height = region.bottom - region.top;
 
-    let newZoom = Math.min(
-        sizes.width / sizes.viewBox.width, sizes.height / sizes.viewBox.height);
-    if (newZoom > 1) {
-      newZoom = 1;
+    let zoom = Math.min(sizes.width / width, sizes.height / height);
+    if (zoom > maxZoom) {
+      zoom = maxZoom;
     } else {
-      newZoom = newZoom * (1 - FIT_PADDING_PERCENT);
+      zoom = zoom * (1 - this.fitPaddingPercent);
     }
+    zoom = Math.min(Math.max(zoom, this.minZoom), this.maxZoom);
 
-    const offsetX =
-        (sizes.width - (sizes.viewBox.width + sizes.viewBox.x * 2) * newZoom) *
-        0.5;
-    const offsetY = (sizes.height -
-                     (sizes.viewBox.height + sizes.viewBox.y * 2) * newZoom) *
-        0.5;
-    const newPan = {x: offsetX, y: offsetY};
-
-    this.smoothPanAndZoom(newPan, newZoom, durationMs);
+    const center = {
+      x: region.left + width / 2,
+      y: region.top + height / 2,
+    };
+    return {pan: this.getPanToCenter(center, zoom), zoom};
   }
 
   /**
@@ -488,7 +619,7 @@ export class GraphCamera {
   /**
    * Returns the rectangular region of world space that is currently visible.
    */
-  private getVisibleRegionInWorldSpace(): Rect {
+  getVisibleRegionInWorldSpace(): Rect {
     // The typings for SvgPanZoom are missing the getSizes() call
     // For now we cast to a custom type with the appropriate methods.
     const sizes = (this.panZoom as SvgPanZoomWithSizes).getSizes();
@@ -510,7 +641,7 @@ export class GraphCamera {
 /**
  * Converts a node into a rectangle.
  */
-function nodeToRect(node: Node): Rect {
+export function nodeToRect(node: Node): Rect {
   const left = node.x! - node.width / 2;
   const right = node.x! + node.width / 2;
   const top = node.y! - node.height / 2;
@@ -518,6 +649,13 @@ function nodeToRect(node: Node): Rect {
   return {top, left, right, bottom};
 }
 
+/**
+ * Returns the value, or the default value if it is unset.
+ */
+function withDefault(value: number|undefined, defaultValue: number): number {
+  return value === undefined ? defaultValue : value;
+}
+
 /**
  * Returns a new rectangle that is expanded outward in every direction by the
  * specified amount.
@@ -612,6 +750,52 @@ export interface CameraOptions {
 
   /** When true, the camera will zoom in or out based on the scrolling input. */
   mouseWheelZoomEnabled?: boolean;
+
+  /** The minimum zoom magnification. Defaults to 0.1. */
+  minZoom?: number;
+
+  /** The maximum zoom magnification. Defaults to 2. */
+  maxZoom?: number;
+
+  /**
+   * How much each zoom in/out step changes the zoom level by, eg 0.4 for 40%.
+   * Defaults to 0.4.
+   */
+  zoomSensitivity?: number;
+
+  /**
+   * How much scrolling the mouse wheel changes the zoom level by. Defaults to
+   * a platform specific value.
+   */
+  mouseWheelZoomSensitivity?: number;
+
+  /**
+   * How much to zoom out beyond fitting the graph, leaving some padding around
+   * it, eg 0.04 for 4%. Defaults to 0.04.
+   */
+  fitPaddingPercent?: number;
+}
+
+/**
+ * Options for fitting the camera to a region.
+ */
+export interface FitOptions {
+  /**
+   * Extra space (in world space) kept around the region. Defaults to 20.
+   */
+  padding?: number;
+
+  /**
+   * The maximum zoom magnification to zoom in to, so that small regions are
+   * not magnified too much. Defaults to the camera's maximum zoom.
+   */
+  maxZoom?: number;
+
+  /** When true (the default), the camera is animated to the region. */
+  smooth?: boolean;
+
+  /** How long the animation lasts, when smooth. */
+  durationMs?: number;
 }
 
 /**
@@ -16,13 +16,21 @@
  */
 
 import {DOCUMENT} from '@angular/common';
-import {AfterViewInit, ChangeDetectionStrategy, ChangeDetectorRef, Component, ContentChild, ElementRef, EventEmitter, HostListener, Inject, Input, OnChanges, OnDestroy, Output, TemplateRef, ViewChild} from '@angular/core';
-import {GraphLabel, graphlib, layout} from 'dagre';  // from //third_party/javascript/typings/dagre
-import {fromEvent, Subscription} from 'rxjs';
-
-import {GraphCamera} from './graph_camera';
-import {Edge, type Graph, GraphCreateEvent, GraphDeleteEvent, GraphSelectEvent, GraphZoomEvent, type LayoutOptions, Node, Point, RankAlignment, RankDirection, RankerAlgorithim} from './model';
-import {curvedPath} from './paths';
+import {AfterViewInit, ChangeDetectionStrategy, ChangeDetectorRef, Component, ContentChild, ElementRef, EventEmitter, HostListener, Inject, Input, OnChanges, OnDestroy, Optional, Output, TemplateRef, ViewChild} from '@angular/core';
+import {graphlib} from 'dagre';  // from //third_party/javascript/typings/dagre
+import {fromEvent, merge, Subscription} from 'rxjs';
+import {debounceTime} from 'rxjs/operators';
+
+import {analyzeCycles, CycleAnalysis} from './cycles';
+import {exportSvg, svgToPng} from './export';
+import {FitOptions, GraphCamera, nodeToRect} from './graph_camera';
+import {copyLayout, diffGraphs, getAnchors, GraphDiff, isEmptyDiff} from './graph_diff';
+import {CollapsedGraph, collapseGroups, getGroupDepths} from './groups';
+import {GraphHistory, GraphMutation} from './history';
+import {alignLayoutResult, DagreLayoutEngine, LayoutEngine, LayoutResult} from './layout_engine';
+import {LAYOUT_ENGINE} from './layout_engine_token';
+import {Edge, EditValidationResult, type Graph, GraphCreateEvent, GraphDeleteEvent, GraphEditAction, GraphGroupToggleEvent, GraphMoveEvent, GraphRejectEvent, GraphSelectEvent, GraphViewState, GraphZoomEvent, EdgeMarker, HighlightMode, type LayoutOptions, Node, Point, PortPosition, RankAlignment, RankDirection, RankerAlgorithim, Rect} from './model';
+import {curvedPath, edgeMarkerPath, edgePath, getPortPoint, isHorizontal, isSelfLoop, selfLoopApex} from './paths';
 import {WindowRef} from './window/window_module';
 
 /**
@@ -44,6 +52,23 @@ const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
  */
 const DEFAULT_NODE_SIZE = 38;
 
+/**
+ * The camera zooms in to at least this level when moving to a search match,
+ * so the match is readable.
+ */
+const SEARCH_MATCH_MIN_ZOOM = 1;
+
+/**
+ * Padding (in world space) shown around the graph in the minimap.
+ */
+const MINIMAP_PADDING = 20;
+
+/**
+ * The amount of time to debounce view changes by before emitting the new view
+ * state, so that it is not emitted on every frame of a pan or zoom.
+ */
+const VIEW_STATE_DEBOUNCE_MS = 200;
+
 /**
  * Keystrokes that will delete the currently selected node or edge.
  *
@@ -55,6 +80,52 @@ const DELETE_DOM_STRINGS = [
   'Backspace',
 ];
 
+/**
+ * Ids generated for edges without one that would otherwise share an id with
+ * another edge, eg edges between the same pair of nodes. These are kept here
+ * rather than written onto the edges supplied by the host.
+ */
+const generatedEdgeIds = new WeakMap<Edge, string>();
+
+/**
+ * Directions the keyboard focus can move in: forward and backward along edges,
+ * or to the previous and next sibling.
+ */
+type NavigationDirection = 'forward'|'backward'|'previous'|'next';
+
+/**
+ * The direction each arrow key moves the keyboard focus in, for every rank
+ * direction.
+ */
+const NAVIGATION_KEYS: {
+  [rankDirection in RankDirection]: {[key: string]: NavigationDirection}
+} = {
+  [RankDirection.TOP_TO_BOTTOM]: {
+    'ArrowDown': 'forward',
+    'ArrowUp': 'backward',
+    'ArrowLeft': 'previous',
+    'ArrowRight': 'next',
+  },
+  [RankDirection.BOTTOM_TO_TOP]: {
+    'ArrowUp': 'forward',
+    'ArrowDown': 'backward',
+    'ArrowLeft': 'previous',
+    'ArrowRight': 'next',
+  },
+  [RankDirection.LEFT_TO_RIGHT]: {
+    'ArrowRight': 'forward',
+    'ArrowLeft': 'backward',
+    'ArrowUp': 'previous',
+    'ArrowDown': 'next',
+  },
+  [RankDirection.RIGHT_TO_LEFT]: {
+    'ArrowLeft': 'forward',
+    'ArrowRight': 'backward',
+    'ArrowUp': 'previous',
+    'ArrowDown': 'next',
+  },
+};
+
 /**
  * Enum to provide camera reset behavior options on graph set.
  */
@@ -104,8 +175,120 @@ export enum CameraResetBehaviorEnum {
  *   {{ node.data.myCustomProperty }}
  * </ng-template>
  *
+ * Nodes may have named ports, which edges are attached to with their srcPort
+ * and destPort. Input ports are on the side of the node that edges enter, and
+ * output ports on the side they leave, eg the top and bottom for TOP_TO_BOTTOM
+ * layouts. The default node template draws a dot for each port. Custom node
+ * templates are supplied the `ports` of the node, with their positions
+ * relative to the top left corner of the node.
+ *
+ * eg:
+ * <ng-template #node let-node let-ports="ports">
+ *   <div *ngFor="let p of ports" class="port"
+ *        [style.left.px]="p.x" [style.top.px]="p.y"></div>
+ * </ng-template>
+ *
+ * Highlighting (optional)
+ * +++++++++++++++++++++++++++++++
+ * The relatives of the selected (or hovered) element are highlighted: node and
+ * edge templates are supplied `predecessor` and `successor` flags, along with
+ * the `distance` in hops from the highlighted element. By default only direct
+ * relatives are highlighted; the highlightMode input extends this to every
+ * ancestor and/or descendant (see {@code HighlightMode}).
+ *
+ * eg:
+ * <directed-graph [graph]="graph" [highlightMode]="'transitive'">
+ *   <ng-template #node let-node let-distance="distance">
+ *     <div [style.opacity]="distance === undefined ? 1 : 1 / distance">
+ *       {{ node.id }}
+ *     </div>
+ *   </ng-template>
+ * </directed-graph>
+ *
+ * Paths between nodes can be highlighted with highlightPath(), which finds the
+ * shortest directed path (or every path) from one node to another and pans
+ * the camera to it. Templates are supplied an `onPath` flag for the nodes and
+ * edges along it.
+ *
+ * Search (optional)
+ * +++++++++++++++++++++++++++++++
+ * Nodes can be found with search(), which matches the query against node ids
+ * and the text returned by searchTextAccessor for node data. The camera moves
+ * to each match in turn with nextSearchMatch() and previousSearchMatch().
+ * While searching, templates are supplied a `searching` flag, and node
+ * templates a `matched` flag: the default templates dim everything that does
+ * not match. A search box is shown in the graph controls when showSearchBox
+ * is set.
+ *
+ * eg: <directed-graph [graph]="graph" [showSearchBox]="true"
+ *         [searchTextAccessor]="getLabel"></directed-graph>
+ *
+ * Cycles (optional)
+ * +++++++++++++++++++++++++++++++
+ * Cyclic graphs are laid out by reversing some of their edges, which can make
+ * the layout look tangled. getCycles() returns the strongly connected
+ * components of the graph that contain cycles, and templates are supplied an
+ * `inCycle` flag for the nodes and edges in them. Edge templates are also
+ * supplied a `backEdge` flag for the edges that close a cycle, which the
+ * default template styles distinctly when highlightBackEdges is set.
+ *
+ * eg: <directed-graph [graph]="graph" [highlightBackEdges]="true">
+ * </directed-graph>
+ *
+ * Camera (optional)
+ * +++++++++++++++++++++++++++++++
+ * The zoom range and sensitivity of the camera can be configured with the
+ * minZoom, maxZoom, zoomSensitivity, mouseWheelZoomSensitivity and
+ * fitPaddingPercent inputs, which must be set before the graph is first
+ * rendered.
+ *
+ * The current view (pan, zoom and selected node) is returned as a plain object
+ * by getViewState(), and restored with setViewState(). The viewStateChange
+ * output emits the view state whenever it changes, eg to store it in the URL.
+ *
+ * eg: <directed-graph [graph]="graph" [maxZoom]="4"
+ *         (viewStateChange)="onViewStateChange($event)"></directed-graph>
+ *
+ * Minimap (optional)
+ * +++++++++++++++++++++++++++++++
+ * When showMinimap is set, an overview of the whole graph is shown in the
+ * corner of the canvas, outlining the region currently in view. Clicking or
+ * dragging in the minimap pans the graph to that point.
+ *
+ * eg: <directed-graph [graph]="graph" [showMinimap]="true"></directed-graph>
+ *
  * Edge Template (optional)
  * +++++++++++++++++++++++++++++++
+ * The default edges are drawn as curves, or in another style set by the
+ * layout's edgeStyle option. Custom edge templates can draw the same paths
+ * with the edgeStylePath pipe.
+ *
+ * eg: <directed-graph [graph]="graph" [layout]="{edgeStyle: 'orthogonal'}">
+ *
+ *     <ng-template #edge let-edge let-loopIndex="loopIndex">
+ *       <svg:path [attr.d]="edge | edgeStylePath:layout:loopIndex"></svg:path>
+ *     </ng-template>
+ *
+ * Edges from a node to itself are drawn as loops beside the node. Custom edge
+ * templates are supplied the loopIndex of each loop, which should be passed
+ * to curvedPath to fan out multiple loops on the same node.
+ *
+ * Edges between the same pair of nodes are told apart by their ids. Edges
+ * without one are given an id by the graph when they would clash with another
+ * edge, while ids given by the host must be unique. Edges between the same pair
+ * of nodes share a single path unless the layout's multigraph option is set,
+ * which routes each of them separately.
+ *
+ * eg: <directed-graph [graph]="graph" [layout]="{multigraph: true}">
+ *
+ * By default, edges are drawn with an arrow pointing at their dest node. The
+ * markers drawn at either end of the default edges can be changed with the
+ * edgeSourceMarker and edgeTargetMarker inputs. Custom edge templates can draw
+ * the same markers with edgeMarkerPath from paths.ts.
+ *
+ * eg: <directed-graph [graph]="graph" [edgeSourceMarker]="'dot'"
+ *         [edgeTargetMarker]="'open-arrow'"></directed-graph>
+ *
  * The edge template lets you customize how edges are rendered in the graph.
  * It is supplied the Edge as an implicit parameter. Unlike the node template,
  * this template expects to be rendered using svg elements. The contents of this
@@ -122,14 +305,40 @@ export enum CameraResetBehaviorEnum {
  *             [attr.x2]="edge.dest.x" [attr.y2]="edge.dest.x"></svg:line>
  * </ng-template>
  *
+ * Edges with a label reserve space for it in the layout. The center point of
+ * the label is supplied to the template as labelPosition, and the default
+ * template draws the label's text there.
+ *
+ * eg:
+ * <ng-template #edge let-edge let-labelPosition="labelPosition">
+ *   ...
+ *   <svg:text *ngIf="labelPosition" [attr.x]="labelPosition.x"
+ *             [attr.y]="labelPosition.y">{{edge.label.text}}</svg:text>
+ * </ng-template>
+ *
  * Node/Edge Selection
  * +++++++++++++++++++++++++++++++
  * {@code GraphSelectEvent} will also be emitted when a node or edge is clicked,
  * or selected with the keyboard.
  *
+ * Several elements may be selected at once. Shift/ctrl-clicking a node or edge
+ * toggles it in the selection set, and shift-dragging on the canvas selects
+ * every node within the dragged box (plus the edges between them). Holding
+ * ctrl as well adds the box contents to the existing selection.
+ *
  * eg: <directed-graph [graph]="graph"
  * (select)="onSelect($event)"></directed-graph>
  *
+ * Keyboard Navigation (optional)
+ * +++++++++++++++++++++++++++++++
+ * Unless enableKeyboardNavigation is unset, nodes can be focused with the
+ * keyboard, and the arrow keys move the focus along the graph following the
+ * rank direction of the layout. In a top to bottom layout, down moves to the
+ * nearest successor, up to the nearest predecessor, and left/right to the
+ * nearest sibling on that side. The camera pans to keep the focused node in
+ * view. In editable graphs, the arrow keys also move from a focused edge to
+ * its source or destination.
+ *
  * Editable (optional)
  * +++++++++++++++++++++++++++++++
  * When the editable flag is set, the graph will expose UI for the user to
@@ -137,11 +346,16 @@ export enum CameraResetBehaviorEnum {
  * and edges by dragging the mouse outward from an existing node. If a drag ends
  * on another node, a new edge is created. If a drag ends on the canvas, a new
  * node and a joining edge to that node are created. Users may use the delete
- * and backspace keys to delete the currently focused/selected node or edge.
+ * and backspace keys to delete the currently focused/selected nodes and edges.
  *
  * Deleting a node will also delete incoming and outgoing edges from that node.
  * Deleting an edge will not delete any nodes along with it.
  *
+ * Edits can be undone and redone with ctrl+z and ctrl+shift+z, or with the
+ * undo() and redo() methods. Undoing or redoing an edit emits the matching
+ * create and delete events. The history is cleared when a graph with
+ * different nodes or edges is set.
+ *
  * Nodes and edges added to the graph are added to directed-graph's local copy.
  * Edits will emit one of the two following events: {@code GraphCreateEvent},
  * {@code GraphDeleteEvent}, providing a hook for users to update their copy of
@@ -156,6 +370,22 @@ export enum CameraResetBehaviorEnum {
  *     (delete)="onDelete($event)">
  * </directed-graph>
  *
+ * Edits can be validated with the canCreateEdge, canCreateNode and canDelete
+ * hooks, which return true to allow an edit, or false (or a reason string) to
+ * reject it. Hooks may also return a promise, in which case the edit is made
+ * once it resolves. Rejected edits emit a {@code GraphRejectEvent}. While
+ * dragging a new edge over a node that it may not be connected to, the drag
+ * edge is marked as rejected: the default template draws it in red, and custom
+ * dragEdge templates are supplied a `rejected` flag.
+ *
+ * eg:
+ * <directed-graph
+ *     [graph]="graph"
+ *     [editable]="true"
+ *     [canCreateEdge]="canConnect"
+ *     (rejected)="showError($event.reason)">
+ * </directed-graph>
+ *
  * Additionally, you may also provide dragNode and dragEdge templates to
  * customize the UI elements used for the drag interaction during node and edge
  * creation.The dragNode is rendered beneath the cursor, and the dragEdge is
@@ -163,6 +393,84 @@ export enum CameraResetBehaviorEnum {
  * The dragNode template is provided with a node, and the dragEdge is provided
  * with an edge, following the same behavior as the standard node and edge
  * templates described above.
+ *
+ * Node Dragging (optional)
+ * +++++++++++++++++++++++++++++++
+ * When enableNodeDragging is set, users may reposition nodes by dragging them.
+ * Dragging a selected node moves every selected node along with it. Moved
+ * nodes are marked as pinned so that later layouts keep them in place, and a
+ * {@code GraphMoveEvent} is emitted for each of them. In editable graphs, new
+ * edges and nodes are then created by holding alt while dragging.
+ *
+ * eg: <directed-graph [graph]="graph" [enableNodeDragging]="true"
+ *         (move)="onMove($event)"></directed-graph>
+ *
+ * Groups (optional)
+ * +++++++++++++++++++++++++++++++
+ * Nodes can be clustered into groups, which are drawn behind their children
+ * using the group template (identified with #group). Groups may be nested by
+ * listing a group's id in the children of another group. Outer groups are
+ * drawn behind inner ones, and the group template is supplied the nesting
+ * `depth` of the group (0 for top level groups). Groups can be collapsed
+ * into a single summary node: edges to and from its children are rerouted to
+ * the summary node instead. The group template is supplied an `expanded` flag
+ * to tell the two apart, and the default template includes a button to toggle
+ * the group. Groups can also be toggled with toggleGroup().
+ *
+ * Double-clicking a group zooms the camera to fit it. Any nodes or groups can
+ * also be fitted in the view with fitNodes().
+ *
+ * The initially expanded groups are set with the expandedGroups input (every
+ * group is expanded if unset), and toggling a group emits a
+ * {@code GraphGroupToggleEvent}.
+ *
+ * eg: <directed-graph [graph]="graph" [expandedGroups]="['g1']"
+ *         (groupToggle)="onGroupToggle($event)"></directed-graph>
+ *
+ * Layout Engine (optional)
+ * +++++++++++++++++++++++++++++++
+ * Nodes, groups and edges are positioned by a {@code LayoutEngine}, which uses
+ * dagre by default. A different engine can be supplied with the layoutEngine
+ * input, or for every graph in an injector by providing the
+ * {@code LAYOUT_ENGINE} token.
+ *
+ * Engines may compute layouts asynchronously, in which case the graph is
+ * hidden until the positions arrive. Large graphs can be laid out off the main
+ * thread with {@code WorkerLayoutEngine} (see layout_worker.ts). Errors from
+ * asynchronous layouts are emitted from layoutError.
+ *
+ * eg: <directed-graph [graph]="graph" [layoutEngine]="myEngine">
+ * </directed-graph>
+ *
+ * Incremental Updates (optional)
+ * +++++++++++++++++++++++++++++++
+ * By default every graph set is laid out from scratch, which can make graphs
+ * that are updated often jump around. When enableIncrementalUpdates is set,
+ * each new graph is compared with the previous one: nodes and edges that are
+ * still present keep their positions until the new layout arrives, and the
+ * layout engine is asked to keep unchanged nodes where they are, with the rest
+ * of the layout fitted around them. While an asynchronous
+ * layout is computed, the graph stays visible, with only the added nodes and
+ * edges hidden until they have positions. Nodes and edges then move smoothly
+ * to their new positions, and added ones fade in. The added, removed and
+ * changed nodes and edges are emitted as a {@code GraphDiff}.
+ *
+ * The default engine moves its new layout as a whole to line up with the
+ * unchanged nodes. Where it reorders them, eg to make room for added ones, they
+ * are held in place like pinned nodes, with their edges drawn directly between
+ * their endpoints. Other engines may ignore the anchored nodes, in which case
+ * the new layout is only shifted as a whole, and nodes it reorders still move
+ * (smoothly) to their new places.
+ *
+ * eg: <directed-graph [graph]="graph" [enableIncrementalUpdates]="true"
+ *         (graphChange)="onGraphChange($event)"></directed-graph>
+ *
+ * Exporting
+ * +++++++++++++++++++++++++++++++
+ * The rendered graph can be exported as a standalone image with exportSvg()
+ * and exportPng(). Exported images show the whole graph regardless of how the
+ * camera is panned or zoomed, with styles inlined so they render the same
+ * outside of the page.
  */
 @Component({
   standalone: false,
@@ -176,6 +484,9 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
   /** The graph svg element. */
   @ViewChild('graphEl', {static: false}) graphEl?: ElementRef;
 
+  /** The minimap svg element, when shown. */
+  @ViewChild('minimapEl', {static: false}) minimapEl?: ElementRef;
+
   /** An (optional) custom html template used to render nodes. */
   @ContentChild('node', {static: false}) nodeTemplate?: TemplateRef<{}>;
 
@@ -203,21 +514,76 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
   /** The graph to render. */
   graph: Graph = emptyGraph();
 
-  /** Dagre's representation of the graph. */
+  /**
+   * The graph as displayed, with collapsed groups replacing their children.
+   * This is the graph itself when no group is collapsed.
+   */
+  visibleGraph: Graph = this.graph;
+
+  /**
+   * The result of collapsing groups, tracking which elements of the visible
+   * graph stand in for hidden ones.
+   */
+  collapsedGraph: CollapsedGraph = {
+    graph: this.graph,
+    summaries: new Set(),
+    reroutedEdges: new Set(),
+  };
+
+  /** Ids of expanded groups. When undefined, every group is expanded. */
+  expandedGroupIds?: Set<string>;
+
+  /** How deeply each group is nested within other groups, keyed by id. */
+  groupDepths = new Map<string, number>();
+
+  /** Graphlib representation of the graph, used to look up relatives. */
   graphLib?: graphlib.Graph;
 
   /** Options that control how nodes a laid out. */
   layout: LayoutOptions = DEFAULT_LAYOUT_OPTIONS;
 
+  /** Engine used to compute the position of nodes, groups and edges. */
+  layoutEngine: LayoutEngine;
+
+  /** The engine to use when none is set via the layoutEngine input. */
+  private readonly defaultLayoutEngine: LayoutEngine;
+
   /** A subscription listening to mouse move events. */
   mousemoveSubscription?: Subscription;
 
   /** A subscription listening to mouse up events. */
   mouseupSubscription?: Subscription;
 
+  /** A subscription listening to mouse events during a box selection. */
+  selectionBoxSubscription?: Subscription;
+
+  /** A subscription listening to mouse events while moving nodes. */
+  nodeMoveSubscription?: Subscription;
+
+  /** Subscription to mouse events while dragging in the minimap. */
+  minimapDragSubscription?: Subscription;
+
+  /** Subscription to view changes, emitted as viewStateChange events. */
+  viewStateSubscription?: Subscription;
+
+  /** A view state to restore once the camera is set up. */
+  private pendingViewState?: GraphViewState;
+
   /** True if the graph is still being setup/initialized. */
   loading = true;
 
+  /**
+   * True while waiting on an asynchronous layout engine to compute positions
+   * for the graph.
+   */
+  layoutPending = false;
+
+  /**
+   * Incremented whenever a layout is requested. Used to discard results from
+   * asynchronous layouts that finish after a newer layout was requested.
+   */
+  private layoutVersion = 0;
+
   /** True if the user is currently dragging the cursor during edit mode. */
   dragging = false;
 
@@ -250,9 +616,30 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
   /** Node from which the most recent drag started from. */
   dragSrcNode?: Node;
 
-  /** The currently selected element. */
+  /** The node that the edge being dragged is over, if any. */
+  dropTargetNode?: Node;
+
+  /** True if the edge being dragged may not be connected to dropTargetNode. */
+  dropTargetRejected = false;
+
+  /** State of the nodes being repositioned by the user, if any. */
+  nodeMove?: NodeMoveState;
+
+  /** The most recently selected element. */
   selectedEl?: Node|Edge;
 
+  /**
+   * Every selected element, keyed by id. Insertion order is preserved, with
+   * selectedEl always being the last entry.
+   */
+  selection = new Map<string, Node|Edge>();
+
+  /** The point (in svg space) where the current box selection started. */
+  selectionBoxStart?: Point;
+
+  /** The region (in svg space) covered by the current box selection. */
+  selectionBox?: Rect;
+
   /** The current element the mouse is over. */
   hoveredEl?: Node|Edge;
 
@@ -265,6 +652,61 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
   /** Nodes and edges that are children the highlighted item. */
   successors = new Set<Node|Edge>();
 
+  /**
+   * The number of hops from the highlighted item to each of its predecessors
+   * and successors.
+   */
+  relativeDistances = new Map<Node|Edge, number>();
+
+  /** Which relatives of the highlighted item are highlighted. */
+  highlightMode = HighlightMode.DIRECT;
+
+  /**
+   * The index of every self-loop among the self-loops on its node, used to
+   * fan them out.
+   */
+  selfLoopIndices = new Map<Edge, number>();
+
+  /** The cycles in the visible graph. */
+  cycles: CycleAnalysis = {
+    components: [],
+    cycleEdges: new Set(),
+    backEdges: new Set(),
+  };
+
+  /**
+   * Nodes and edges added by an incremental update, which are hidden until
+   * the layout gives them positions.
+   */
+  unplacedElements = new Set<Node|Edge>();
+
+  /** Nodes that are part of at least one cycle. */
+  cycleNodes = new Set<Node>();
+
+  /** The path requested with highlightPath(), if any. */
+  highlightedPath?: {srcId: string, destId: string, allPaths: boolean};
+
+  /** Nodes and edges along the highlighted path. */
+  pathElements = new Set<Node|Edge>();
+
+  /** The query of the current search, or empty if not searching. */
+  searchQuery = '';
+
+  /** Nodes matching the current search, in graph order. */
+  searchMatches: Node[] = [];
+
+  /** Index within searchMatches of the match the camera last moved to. */
+  searchMatchIndex = -1;
+
+  /** The nodes of searchMatches, for quick lookups. */
+  private searchMatchSet = new Set<Node>();
+
+  /** The region (in world space) shown by the minimap. */
+  minimapBounds?: Rect;
+
+  /** The region (in world space) currently visible through the camera. */
+  minimapViewport?: Rect;
+
   /**
    * The point (in svg space) where the selected item was click on with
    * the mouse. Undefined if the selected element was picked w/o the mouse.
@@ -285,9 +727,15 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
   /** Set used for keeping track of taken node ids. */
   nodeIds = new Set<string>();
 
+  /** Edits made to the graph that can be undone and redone. */
+  history = new GraphHistory();
+
   /** Aliases for template access. */
   curvedPath = curvedPath;
+  edgeMarkerPath = edgeMarkerPath;
+  edgePath = edgePath;
   getId = getId;
+  EdgeMarker = EdgeMarker;
 
   /** Enables the graph to be edited */
   @Input() editable = false;
@@ -304,33 +752,143 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
 
   @Input() cameraSmoothResetDurationMs = 500;
 
+  /** The minimum zoom magnification. Defaults to 0.1. */
+  @Input() minZoom?: number;
+
+  /** The maximum zoom magnification. Defaults to 2. */
+  @Input() maxZoom?: number;
+
+  /**
+   * How much the zoom in/out controls change the zoom level by, eg 0.4 for
+   * 40%.
+   */
+  @Input() zoomSensitivity?: number;
+
+  /** How much scrolling the mouse wheel changes the zoom level by. */
+  @Input() mouseWheelZoomSensitivity?: number;
+
+  /**
+   * How much to zoom out beyond fitting the graph when resetting the camera,
+   * leaving some padding around it, eg 0.04 for 4%.
+   */
+  @Input() fitPaddingPercent?: number;
+
   @Input() enableNodeEdgeAnimation = false;
 
+  /**
+   * Updates the graph incrementally when a new graph is set, keeping the
+   * positions of nodes and edges that are still present steady.
+   */
+  @Input() enableIncrementalUpdates = false;
+
+  /**
+   * Validates the creation of an edge between two nodes by the user. Returns
+   * true to allow the edge, or false (or the reason) to reject it.
+   */
+  @Input()
+  canCreateEdge?: (src: Node, dest: Node) =>
+      EditValidationResult | PromiseLike<EditValidationResult>;
+
+  /**
+   * Validates the creation of a node (joined by an edge from the src node) at
+   * a point in the graph by the user.
+   */
+  @Input()
+  canCreateNode?: (src: Node, point: Point) =>
+      EditValidationResult | PromiseLike<EditValidationResult>;
+
+  /**
+   * Validates the deletion of a node or edge by the user. Called for each
+   * element being deleted, including the edges of deleted nodes. Nodes are
+   * only deleted if all of their edges may be deleted too.
+   */
+  @Input()
+  canDelete?: (el: Node|Edge) =>
+      EditValidationResult | PromiseLike<EditValidationResult>;
+
+  /** Enables repositioning nodes by dragging them. */
+  @Input() enableNodeDragging = false;
+
+  /** Enables moving the keyboard focus between nodes with the arrow keys. */
+  @Input() enableKeyboardNavigation = true;
+
+  /** The marker drawn at the src end of edges by the default edge template. */
+  @Input() edgeSourceMarker = EdgeMarker.NONE;
+
+  /**
+   * The marker drawn at the dest end of edges by the default edge template.
+   */
+  @Input() edgeTargetMarker = EdgeMarker.ARROW;
+
+  /** Shows a search box for finding nodes in the graph controls. */
+  @Input() showSearchBox = false;
+
+  /** Shows an overview of the whole graph, used to pan around it. */
+  @Input() showMinimap = false;
+
+  /**
+   * Returns the text of node data that search queries are matched against,
+   * along with node ids.
+   */
+  @Input() searchTextAccessor?: (data: unknown) => string | undefined;
+
+  /** Styles the edges that close a cycle distinctly in the default template. */
+  @Input() highlightBackEdges = false;
+
+  /** Which relatives of the selected or hovered element are highlighted. */
+  @Input('highlightMode')
+  set onHighlightModeSet(mode: HighlightMode|undefined) {
+    this.highlightMode = mode || HighlightMode.DIRECT;
+    if (this.graphLib) {
+      this.updateHighlightedRelatives();
+    }
+  }
+
   /** Supplied graph to render. */
   @Input('graph')
   set onGraphSet(graph: Graph|undefined) {
-    this.graph = graph ? shallowCopy(graph) : emptyGraph();
-    this.updateGraphLayout();
+    const nextGraph = graph ? shallowCopy(graph) : emptyGraph();
+    assignEdgeIds(nextGraph.edges);
+    const prevGraph = this.graph;
+    this.graph = nextGraph;
+
+    // Hosts typically set the graph again after applying the create and
+    // delete events of the component's own edits, which keeps the history.
+    // Any other graph may not hold the nodes that the history refers to.
+    if (!hasSameElements(prevGraph, this.graph)) {
+      this.history.clear();
+    }
+
+    let anchors: Map<string, Point>|undefined;
+    if (this.enableIncrementalUpdates && prevGraph.nodes.length > 0) {
+      const diff = diffGraphs(prevGraph, this.graph);
+      copyLayout(prevGraph, this.graph);
+      anchors = getAnchors(this.graph, diff);
+      const addedNodes = new Set(diff.addedNodes);
+      const addedEdges = new Set(diff.addedEdges);
+      this.unplacedElements = new Set<Node|Edge>([
+        ...diff.addedNodes,
+        ...this.graph.edges.filter(
+            e => addedEdges.has(e) || addedNodes.has(e.src) ||
+                addedNodes.has(e.dest)),
+      ]);
+      if (!isEmptyDiff(diff)) {
+        this.graphChange.emit(diff);
+      }
+    }
+
+    const layoutApplied = this.updateGraphLayout(anchors);
     this.updatePriorSelectionsAfterGraphMutation();
     this.updateHighlightedRelatives();
     this.updateNodeIds();
 
-    // Camera reset needs to happen outside of the Angular component rendering
-    // lifecycle so that it waits for the graph to be painted on to the DOM
-    // correctly before attempting to recenter.
-    switch (this.cameraResetBehaviorOnGraphSet) {
-      case CameraResetBehaviorEnum.RESET:
-        setTimeout(() => {
-          this.resetCamera();
-        }, 0);
-        break;
-      case CameraResetBehaviorEnum.SMOOTH_RESET:
-        setTimeout(() => {
-          this.smoothResetCamera();
-        }, 0);
-        break;
-      default:
-    }
+    // Wait for the layout, which may be computed asynchronously, so that the
+    // camera is reset against the new node positions.
+    layoutApplied.then(applied => {
+      if (applied) {
+        this.applyCameraResetBehaviorOnGraphSet();
+      }
+    });
   }
 
   @Input('layout')
@@ -339,8 +897,37 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
       ...DEFAULT_LAYOUT_OPTIONS,
       ...layout || {},
     };
+    this.updateGraphLayout().then(applied => {
+      if (applied) {
+        this.resetCamera();
+      }
+    });
+  }
+
+  /**
+   * Ids of the groups that should be expanded. All other groups are collapsed.
+   * When unset, every group is expanded.
+   */
+  @Input('expandedGroups')
+  set onExpandedGroupsSet(ids: string[]|undefined) {
+    this.expandedGroupIds = ids ? new Set(ids) : undefined;
     this.updateGraphLayout();
-    this.resetCamera();
+    this.updatePriorSelectionsAfterGraphMutation();
+    this.updateHighlightedRelatives();
+  }
+
+  /**
+   * Layout engine to use for this graph. Falls back to the engine provided
+   * with the LAYOUT_ENGINE token, and then to dagre.
+   */
+  @Input('layoutEngine')
+  set onLayoutEngineSet(engine: LayoutEngine|undefined) {
+    this.layoutEngine = engine || this.defaultLayoutEngine;
+    this.updateGraphLayout().then(applied => {
+      if (applied) {
+        this.resetCamera();
+      }
+    });
   }
 
   /**
@@ -353,6 +940,11 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
    */
   @Output() delete = new EventEmitter<GraphDeleteEvent>();
 
+  /**
+   * Emits when an edit has been rejected by a validation hook.
+   */
+  @Output() rejected = new EventEmitter<GraphRejectEvent>();
+
   /**
    * Emits when a graph object has been selected.
    */
@@ -363,11 +955,43 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
    */
   @Output() zoom = new EventEmitter<GraphZoomEvent>();
 
+  /**
+   * Emits the error whenever an asynchronous layout engine fails to lay out
+   * the graph.
+   */
+  @Output() layoutError = new EventEmitter<unknown>();
+
+  /**
+   * Emits when a node has been repositioned by the user.
+   */
+  @Output() move = new EventEmitter<GraphMoveEvent>();
+
+  /**
+   * Emits when a group has been expanded or collapsed.
+   */
+  @Output() groupToggle = new EventEmitter<GraphGroupToggleEvent>();
+
+  /**
+   * Emits the view state when the graph is panned or zoomed, or the selection
+   * changes.
+   */
+  @Output() viewStateChange = new EventEmitter<GraphViewState>();
+
+  /**
+   * Emits the nodes and edges that were added, removed or changed whenever a
+   * new graph is set, if enableIncrementalUpdates is set.
+   */
+  @Output() graphChange = new EventEmitter<GraphDiff>();
+
   constructor(
       private readonly changeDetectorRef: ChangeDetectorRef,
       private readonly windowRef: WindowRef,
       @Inject(DOCUMENT) private readonly document: Document,
-  ) {}
+      @Optional() @Inject(LAYOUT_ENGINE) layoutEngine: LayoutEngine|null,
+  ) {
+    this.defaultLayoutEngine = layoutEngine || new DagreLayoutEngine();
+    this.layoutEngine = this.defaultLayoutEngine;
+  }
 
   ngAfterViewInit() {
     // Finish graph setup.
@@ -426,6 +1050,22 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
       this.mouseupSubscription.unsubscribe();
     }
 
+    if (this.selectionBoxSubscription) {
+      this.selectionBoxSubscription.unsubscribe();
+    }
+
+    if (this.nodeMoveSubscription) {
+      this.nodeMoveSubscription.unsubscribe();
+    }
+
+    if (this.minimapDragSubscription) {
+      this.minimapDragSubscription.unsubscribe();
+    }
+
+    if (this.viewStateSubscription) {
+      this.viewStateSubscription.unsubscribe();
+    }
+
     if (this.camera) {
       this.camera.destroy();
     }
@@ -463,15 +1103,29 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
    *       where the user clicked to select the item. If unset (or el is unset),
    *       clears any prior cached mouse point.
    */
-  private setSelected(el?: Node|Edge, options: {
-    emitEvent?: boolean,
-    focus?: boolean,
-    mousePoint?: Point,
-  } = {}) {
-    if (!!el) {
-      this.selectedEl = el;
+  private setSelected(el?: Node|Edge, options: SelectionOptions = {}) {
+    this.setSelection(el ? [el] : [], options);
+  }
+
+  /**
+   * Replaces the selection set with the provided elements. The last element
+   * becomes the primary selection (selectedEl), which is used for
+   * highlighting relatives and receives the focus and mouse point options.
+   * Accepts the same options as setSelected.
+   */
+  private setSelection(els: Array<Node|Edge>, options: SelectionOptions = {}) {
+    this.selection = new Map();
+    for (const el of els) {
+      // Re-inserting moves duplicates to the end, keeping selectedEl last.
+      this.selection.delete(getId(el));
+      this.selection.set(getId(el), el);
+    }
+
+    const primary = els[els.length - 1];
+    if (!!primary) {
+      this.selectedEl = primary;
       this.selectedElMousePoint = options.mousePoint;
-      if (options.focus) this.setFocus(el);
+      if (options.focus) this.setFocus(primary);
     } else {
       this.selectedEl = undefined;
       this.selectedElMousePoint = undefined;
@@ -480,45 +1134,166 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     this.updateHighlightedRelatives();
 
     if (options.emitEvent) {
-      if (!this.selectedEl) {
-        this.select.emit({});
-      } else if (isNode(this.selectedEl)) {
-        this.select.emit({node: this.selectedEl});
-      } else {
-        this.select.emit({edge: this.selectedEl});
-      }
+      this.emitSelectEvent();
     }
 
     this.changeDetectorRef.markForCheck();
   }
 
   /**
-   * Sets what element is currently being hovered over with the mouse. Set
-   * to undefine to signal that nothing is being hovered.
+   * Adds an element to the selection set, or removes it if it is already
+   * selected. Accepts the same options as setSelected.
    */
-  setHovered(el?: Node|Edge) {
-    this.hoveredEl = el;
-    this.updateHighlightedRelatives();
-  }
+  private toggleSelected(el: Node|Edge, options: SelectionOptions = {}) {
+    const els = [...this.selection.values()];
+    if (this.isSelected(el)) {
+      const id = getId(el);
+      this.setSelection(
+          els.filter(s => getId(s) !== id),
+          {emitEvent: options.emitEvent});
+    } else {
+      this.setSelection([...els, el], options);
+    }
+  }
+
+  /** Emits a select event describing the current selection set. */
+  private emitSelectEvent() {
+    const {nodes, edges} = partitionElements([...this.selection.values()]);
+    const event: GraphSelectEvent = {nodes, edges};
+    const primary = this.selectedEl;
+    if (primary && isNode(primary)) {
+      event.node = primary;
+    } else if (primary && isEdge(primary)) {
+      event.edge = primary;
+    }
+    this.select.emit(event);
+  }
+
+  /**
+   * Sets what element is currently being hovered over with the mouse. Set
+   * to undefine to signal that nothing is being hovered.
+   */
+  setHovered(el?: Node|Edge) {
+    this.hoveredEl = el;
+    if (this.dragging) {
+      this.updateDropTarget(el && isNode(el) ? el : undefined);
+    }
+    this.updateHighlightedRelatives();
+  }
+
+  /**
+   * Checks whether the edge being dragged may be connected to the node that
+   * it is over.
+   */
+  private updateDropTarget(node?: Node) {
+    this.dropTargetNode = node;
+    this.dropTargetRejected = false;
+    const src = this.dragSrcNode;
+    if (!node || !src) {
+      return;
+    }
+
+    if (node === src || this.isDerivedElement(node)) {
+      this.dropTargetRejected = true;
+      return;
+    }
+
+    if (this.canCreateEdge) {
+      const canCreateEdge = this.canCreateEdge;
+      resolveValidation(() => canCreateEdge(src, node), result => {
+        if (this.dragging && this.dropTargetNode === node) {
+          this.dropTargetRejected = result !== true;
+          this.changeDetectorRef.markForCheck();
+        }
+      });
+    }
+  }
 
   /**
    * Determines whether something should be highlighted because it is selected
-   * or hovered and updates the successor and predecessor sets.
+   * or hovered and updates the successor and predecessor sets, following the
+   * highlight mode.
    */
   private updateHighlightedRelatives() {
     const lib = this.graphLib!;
-    this.highlightedEl = this.selectedEl || this.hoveredEl || undefined;
-
-    if (!this.highlightedEl) {
-      this.predecessors = new Set();
-      this.successors = new Set();
-    } else if (isNode(this.highlightedEl)) {
-      const nodeId = this.highlightedEl.id;
-      this.predecessors = getPredecessors(nodeId, lib);
-      this.successors = getSuccessors(nodeId, lib);
+    const el = this.selectedEl || this.hoveredEl || undefined;
+    this.highlightedEl = el;
+
+    const mode = this.highlightMode;
+    const allAncestors =
+        mode === HighlightMode.ANCESTORS || mode === HighlightMode.TRANSITIVE;
+    const allDescendants =
+        mode === HighlightMode.DESCENDANTS || mode === HighlightMode.TRANSITIVE;
+
+    let predecessors = new Map<Node|Edge, number>();
+    let successors = new Map<Node|Edge, number>();
+    if (el && isNode(el)) {
+      predecessors =
+          getRelativeDistances(el, lib, getPredecessors, allAncestors);
+      successors = getRelativeDistances(el, lib, getSuccessors, allDescendants);
+    } else if (el && isEdge(el)) {
+      predecessors =
+          getRelativeDistances(el.src, lib, getPredecessors, allAncestors, 1);
+      successors =
+          getRelativeDistances(el.dest, lib, getSuccessors, allDescendants, 1);
+    }
+
+    this.predecessors = new Set(predecessors.keys());
+    this.successors = new Set(successors.keys());
+    this.relativeDistances = new Map(successors);
+    for (const [relative, distance] of predecessors) {
+      const other = this.relativeDistances.get(relative);
+      this.relativeDistances.set(
+          relative, other === undefined ? distance : Math.min(other, distance));
+    }
+  }
+
+  /**
+   * Highlights the shortest directed path from one node to another, or every
+   * node and edge along any path between them if allPaths is set, and pans the
+   * camera to show it. The path is kept up to date as the graph changes, until
+   * cleared with clearHighlightedPath().
+   *
+   * Returns false if the destination cannot be reached from the source.
+   */
+  highlightPath(
+      srcId: string, destId: string, options: {allPaths?: boolean} = {}) {
+    this.highlightedPath = {srcId, destId, allPaths: !!options.allPaths};
+    this.updatePathElements();
+    this.changeDetectorRef.markForCheck();
+
+    const nodes = [...this.pathElements].filter(isNode);
+    if (this.camera && nodes.length > 0) {
+      // Zooms out if needed to fit the path, but never zooms in.
+      this.camera.fitRegion(
+          getBoundingRect(nodes.map(nodeToRect)),
+          {maxZoom: this.camera.getZoom()});
+    }
+    return nodes.length > 0;
+  }
+
+  /**
+   * Stops highlighting the path set with highlightPath().
+   */
+  clearHighlightedPath() {
+    this.highlightedPath = undefined;
+    this.pathElements = new Set();
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Finds the nodes and edges along the highlighted path in the current graph.
+   */
+  private updatePathElements() {
+    const path = this.highlightedPath;
+    const lib = this.graphLib;
+    if (!path || !lib || !lib.hasNode(path.srcId) ||
+        !lib.hasNode(path.destId)) {
+      this.pathElements = new Set();
+    } else if (path.allPaths) {
+      this.pathElements = findAllPathElements(path.srcId, path.destId, lib);
     } else {
-      this.predecessors = new Set([this.highlightedEl.src]);
-      this.successors = new Set([this.highlightedEl.dest]);
+      this.pathElements = findShortestPath(path.srcId, path.destId, lib);
     }
   }
 
@@ -526,7 +1301,7 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
    * Returns a node for a given id or undefined if not found.
    */
   getNodeById(id: string|undefined): Node|undefined {
-    return this.graph.nodes.find(n => n.id === id);
+    return this.visibleGraph.nodes.find(n => n.id === id);
   }
 
   /**
@@ -553,39 +1328,452 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     this.maxNodeId = 0;
   }
 
-  // DAGRE HELPER FUNCTIONS
+  // LAYOUT HELPER FUNCTIONS
 
   /**
    * Re-lays out the graph when it is updated.
+   *
+   * Synchronous layout engines are applied immediately. For asynchronous
+   * engines the graph is kept in its loading state until the positions
+   * arrive. Resolves to true once the positions are applied, or false if they
+   * were discarded because another layout was requested in the meantime, or
+   * the layout failed. Failures are emitted from layoutError.
+   *
+   * When given anchors, the engine is asked to keep those nodes in place, and
+   * the graph stays visible while the positions are computed. The layout is
+   * moved as a whole for any anchored nodes that the engine doesn't hold.
    */
-  private updateGraphLayout() {
-    const compound = (this.graph.groups || []).length > 0;
-    const g = new graphlib.Graph({compound});
-    this.graphLib = g;
+  private updateGraphLayout(anchors?: Map<string, Point>): Promise<boolean> {
+    this.updateVisibleGraph();
+    this.updateGraphLib();
+    const graph = this.visibleGraph;
+    const version = ++this.layoutVersion;
+    const result =
+        this.layoutEngine.layout(graph, this.layout, anchors);
+
+    if (!isPromiseLike(result)) {
+      if (anchors) {
+        alignLayoutResult(result, anchors);
+      }
+      applyLayoutResult(graph, result);
+      this.unplacedElements.clear();
+      this.updateMinimapBounds();
+      this.layoutPending = false;
+      return Promise.resolve(true);
+    }
 
-    g.setGraph(convertToDagreOptions(this.layout));
+    this.layoutPending = !anchors;
+    this.changeDetectorRef.markForCheck();
 
-    for (const node of this.graph.nodes) {
+    return Promise.resolve(result).then(
+        (resolved) => {
+          if (version !== this.layoutVersion) {
+            return false;
+          }
+          if (anchors) {
+            alignLayoutResult(resolved, anchors);
+          }
+          applyLayoutResult(graph, resolved);
+          this.unplacedElements.clear();
+          this.updateMinimapBounds();
+          this.layoutPending = false;
+          this.changeDetectorRef.markForCheck();
+          return true;
+        },
+        (error) => {
+          if (version === this.layoutVersion) {
+            this.layoutPending = false;
+            this.changeDetectorRef.markForCheck();
+            this.layoutError.emit(error);
+          }
+          return false;
+        });
+  }
+
+  /**
+   * Rebuilds the visible graph, replacing the children of collapsed groups
+   * with summary nodes.
+   */
+  private updateVisibleGraph() {
+    this.collapsedGraph = collapseGroups(
+        this.graph, group => !this.isGroupExpanded(group.id),
+        this.collapsedGraph.summaries);
+    this.visibleGraph = this.collapsedGraph.graph;
+
+    // Groups are rendered in order, so outer groups are sorted first to be
+    // drawn behind the groups nested within them.
+    const depths = getGroupDepths(this.graph.groups || []);
+    this.groupDepths = depths;
+    if (this.visibleGraph.groups) {
+      this.visibleGraph.groups.sort(
+          (a, b) => depths.get(a.id)! - depths.get(b.id)!);
+    }
+
+    this.updateSearchMatches();
+  }
+
+  /**
+   * Rebuilds the graphlib representation of the graph used for looking up
+   * relatives of nodes.
+   */
+  private updateGraphLib() {
+    const graph = this.visibleGraph;
+    const compound = (graph.groups || []).length > 0;
+    const g = new graphlib.Graph({compound, multigraph: true});
+    this.graphLib = g;
+
+    for (const node of graph.nodes) {
       g.setNode(node.id, node);
     }
 
-    for (const edge of this.graph.edges) {
-      g.setEdge(edge.src.id, edge.dest.id, edge);
+    // Edges are named by their index, keeping every edge between the same
+    // pair of nodes.
+    graph.edges.forEach((edge, i) => {
+      g.setEdge(edge.src.id, edge.dest.id, edge, `${i}`);
+    });
+
+    this.selfLoopIndices = new Map();
+    const loopCounts = new Map<Node, number>();
+    for (const edge of graph.edges.filter(isSelfLoop)) {
+      const index = loopCounts.get(edge.src) || 0;
+      this.selfLoopIndices.set(edge, index);
+      loopCounts.set(edge.src, index + 1);
     }
 
+    this.cycles = analyzeCycles(graph);
+    this.cycleNodes = new Set(
+        this.cycles.components.reduce((all, c) => all.concat(c), []));
+
     // Set group nodes
-    for (const group of (this.graph.groups || [])) {
+    for (const group of (graph.groups || [])) {
       g.setNode(group.id, group);
     }
 
     // Set parent of group nodes's children
-    for (const group of (this.graph.groups || [])) {
+    for (const group of (graph.groups || [])) {
       for (const nodeId of (group.children || [])) {
-        g.setParent(nodeId, group.id);
+        if (g.hasNode(nodeId)) {
+          g.setParent(nodeId, group.id);
+        }
       }
     }
 
-    layout(g);
+    this.updatePathElements();
+  }
+
+  // SEARCH FUNCTIONS
+
+  /**
+   * Searches for nodes whose id, or text returned by searchTextAccessor,
+   * contains the query (ignoring case), and moves the camera to the first
+   * match. An empty query clears the search. Returns the matching nodes.
+   */
+  search(query: string): Node[] {
+    this.searchQuery = query;
+    this.searchMatchIndex = -1;
+    this.updateSearchMatches();
+    this.nextSearchMatch();
+    this.changeDetectorRef.markForCheck();
+    return this.searchMatches;
+  }
+
+  /** Moves the camera to the next search match, wrapping around. */
+  nextSearchMatch() {
+    this.moveToSearchMatch(this.searchMatchIndex + 1);
+  }
+
+  /** Moves the camera to the previous search match, wrapping around. */
+  previousSearchMatch() {
+    this.moveToSearchMatch(this.searchMatchIndex - 1);
+  }
+
+  /** Clears the current search. */
+  clearSearch() {
+    this.search('');
+  }
+
+  /** Returns true if a search is in progress. */
+  isSearching(): boolean {
+    return this.searchQuery.trim() !== '';
+  }
+
+  /** Returns true if the node matches the current search. */
+  isSearchMatch(node: Node): boolean {
+    return this.searchMatchSet.has(node);
+  }
+
+  /**
+   * Smoothly pans and zooms the camera to center the search match at the
+   * given index.
+   */
+  private moveToSearchMatch(index: number) {
+    const count = this.searchMatches.length;
+    if (count === 0) {
+      return;
+    }
+
+    this.searchMatchIndex = (index % count + count) % count;
+    const node = this.searchMatches[this.searchMatchIndex];
+    if (this.camera && node.x !== undefined && node.y !== undefined) {
+      const zoom = Math.max(this.camera.getZoom(), SEARCH_MATCH_MIN_ZOOM);
+      this.camera.smoothCenterOn({x: node.x, y: node.y}, zoom);
+    }
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Finds the visible nodes matching the search query.
+   */
+  private updateSearchMatches() {
+    const query = this.searchQuery.trim().toLowerCase();
+    const accessor = this.searchTextAccessor;
+    const matches = (text?: string) =>
+        !!text && text.toLowerCase().includes(query);
+
+    this.searchMatches = !query ?
+        [] :
+        this.visibleGraph.nodes.filter(
+            node => matches(node.id) ||
+                (!!accessor && matches(accessor(node.data))));
+    this.searchMatchSet = new Set(this.searchMatches);
+    this.searchMatchIndex =
+        Math.min(this.searchMatchIndex, this.searchMatches.length - 1);
+  }
+
+  // MINIMAP FUNCTIONS
+
+  /**
+   * Fits the minimap around the laid out graph.
+   */
+  private updateMinimapBounds() {
+    const {nodes, groups} = this.visibleGraph;
+    const rects = [...nodes, ...(groups || [])]
+                      .filter(n => n.x !== undefined && n.y !== undefined)
+                      .map(nodeToRect);
+    this.minimapBounds = rects.length > 0 ?
+        expandRect(getBoundingRect(rects), MINIMAP_PADDING) :
+        undefined;
+    this.updateMinimapViewport();
+  }
+
+  /**
+   * Outlines the region visible through the camera in the minimap.
+   */
+  private updateMinimapViewport() {
+    this.minimapViewport =
+        this.camera && this.camera.getVisibleRegionInWorldSpace();
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Returns the viewBox of the minimap, showing the whole graph.
+   */
+  getMinimapViewBox(bounds: Rect): string {
+    const width = bounds.right - bounds.left;
+    const height = bounds.bottom - bounds.top;
+    return `${bounds.left} ${bounds.top} ${width} ${height}`;
+  }
+
+  /**
+   * Returns the center point of an edge's label, or undefined if the edge has
+   * no label. Labels that the layout did not place are drawn at the middle of
+   * their edge.
+   */
+  getEdgeLabelPosition(edge: Edge): Point|undefined {
+    if (!edge.label) {
+      return undefined;
+    }
+
+    if (edge.labelPosition) {
+      return edge.labelPosition;
+    }
+
+    if (isSelfLoop(edge)) {
+      // Placed just beyond the far side of the loop.
+      const apex =
+          selfLoopApex(edge.src, this.layout, this.getSelfLoopIndex(edge));
+      return isHorizontal(this.layout) ?
+          {x: apex.x, y: apex.y + edge.label.height / 2} :
+          {x: apex.x + edge.label.width / 2, y: apex.y};
+    }
+
+    if (edge.points.length > 2) {
+      return edge.points[Math.floor(edge.points.length / 2)];
+    }
+
+    return {
+      x: ((edge.src.x || 0) + (edge.dest.x || 0)) / 2,
+      y: ((edge.src.y || 0) + (edge.dest.y || 0)) / 2,
+    };
+  }
+
+  /**
+   * Returns the positions of a node's ports, relative to the top left corner
+   * of the node.
+   */
+  getPortPositions(node: Node): PortPosition[] {
+    const left = (node.x || 0) - node.width / 2;
+    const top = (node.y || 0) - node.height / 2;
+    return (node.ports || []).map(port => {
+      const {x, y} = getPortPoint(node, port, this.layout);
+      return {port, x: x - left, y: y - top};
+    });
+  }
+
+  /**
+   * Returns the index of a self-loop among the self-loops on its node, or 0
+   * for other edges.
+   */
+  getSelfLoopIndex(edge: Edge): number {
+    return this.selfLoopIndices.get(edge) || 0;
+  }
+
+  /**
+   * Returns the points of the simplified line drawn for an edge in the
+   * minimap.
+   */
+  getMinimapEdgePoints(edge: Edge): string {
+    const points = edge.points.length > 0 ?
+        edge.points :
+        [{x: edge.src.x || 0, y: edge.src.y || 0},
+         {x: edge.dest.x || 0, y: edge.dest.y || 0}];
+    return points.map(p => `${p.x},${p.y}`).join(' ');
+  }
+
+  /**
+   * Pans the graph to the point clicked in the minimap, and keeps following
+   * the mouse while it is dragged.
+   */
+  minimapMouseDown($event: MouseEvent) {
+    $event.preventDefault();
+    this.centerCameraOnMinimapPoint($event);
+
+    const nativeWindow = this.windowRef.native;
+    this.minimapDragSubscription = new Subscription();
+    this.minimapDragSubscription.add(
+        fromEvent<MouseEvent>(nativeWindow, 'mousemove').subscribe((event) => {
+          this.centerCameraOnMinimapPoint(event);
+        }));
+    this.minimapDragSubscription.add(
+        fromEvent<MouseEvent>(nativeWindow, 'mouseup').subscribe(() => {
+          this.minimapDragSubscription!.unsubscribe();
+          this.minimapDragSubscription = undefined;
+        }));
+  }
+
+  /**
+   * Centers the camera on the world space point under the mouse in the
+   * minimap.
+   */
+  private centerCameraOnMinimapPoint($event: MouseEvent) {
+    const svgEl = this.minimapEl && this.minimapEl.nativeElement;
+    const ctm = svgEl && svgEl.getScreenCTM();
+    if (!this.camera || !ctm) {
+      return;
+    }
+
+    const point = svgEl.createSVGPoint();
+    point.x = $event.clientX;
+    point.y = $event.clientY;
+    const worldPoint = point.matrixTransform(ctm.inverse());
+    this.camera.centerOn({x: worldPoint.x, y: worldPoint.y});
+  }
+
+  // GROUP FUNCTIONS
+
+  /**
+   * Returns true if the group with the given id is expanded.
+   */
+  isGroupExpanded(id: string): boolean {
+    return !this.expandedGroupIds || this.expandedGroupIds.has(id);
+  }
+
+  /**
+   * Returns how deeply the group with the given id is nested within other
+   * groups. Top level groups have a depth of 0.
+   */
+  getGroupDepth(id: string): number {
+    return this.groupDepths.get(id) || 0;
+  }
+
+  /**
+   * Returns true if the node is the summary node of a collapsed group.
+   */
+  isCollapsedGroup(node: Node): boolean {
+    return this.collapsedGraph.summaries.has(node);
+  }
+
+  /**
+   * Expands or collapses the group with the given id, emitting a groupToggle
+   * event.
+   */
+  toggleGroup(id: string) {
+    const groups = this.graph.groups || [];
+    const group = groups.find(g => g.id === id);
+    if (!group) {
+      return;
+    }
+
+    const expanded = !this.isGroupExpanded(id);
+    if (!this.expandedGroupIds) {
+      this.expandedGroupIds = new Set(groups.map(g => g.id));
+    }
+    if (expanded) {
+      this.expandedGroupIds.add(id);
+    } else {
+      this.expandedGroupIds.delete(id);
+    }
+
+    // Show the change in place first, with revealed nodes and groups starting
+    // where the summary node was, so that the re-layout has a reference point
+    // to animate from.
+    const summary = [...this.collapsedGraph.summaries].find(n => n.id === id);
+    const previous = this.visibleGraph;
+    const wasVisible =
+        new Set([...previous.nodes, ...(previous.groups || [])].map(getId));
+    this.updateVisibleGraph();
+    if (expanded && summary) {
+      const {nodes, groups} = this.visibleGraph;
+      for (const el of [...nodes, ...(groups || [])]) {
+        if (!wasVisible.has(getId(el))) {
+          el.x = summary.x;
+          el.y = summary.y;
+        }
+      }
+    }
+    this.changeDetectorRef.markForCheck();
+
+    setTimeout(() => {
+      this.updateGraphLayout();
+      this.updatePriorSelectionsAfterGraphMutation();
+      this.updateHighlightedRelatives();
+      this.changeDetectorRef.markForCheck();
+      this.groupToggle.emit({group, expanded});
+    }, 0);
+  }
+
+  /** Toggles a group from a click on its expand/collapse button. */
+  onGroupToggleClick(group: Node, $event: MouseEvent) {
+    this.toggleGroup(group.id);
+    $event.stopPropagation();
+  }
+
+  /**
+   * Zooms the camera to fit a group when it is double clicked.
+   */
+  onGroupDoubleClick(group: Node, $event: MouseEvent) {
+    // Keeps the pan-zoom library from zooming in on the double click too.
+    $event.stopPropagation();
+    this.fitNodes([group.id]);
+  }
+
+  /**
+   * Returns true if the element only exists in the visible graph, standing in
+   * for elements hidden by a collapsed group. These can't be edited.
+   */
+  private isDerivedElement(el: Node|Edge): boolean {
+    return isNode(el) ? this.collapsedGraph.summaries.has(el) :
+                        this.collapsedGraph.reroutedEdges.has(el);
   }
 
   // CAMERA FUNCTIONS
@@ -614,15 +1802,94 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
       windowRef: this.windowRef,
       autoResetOnWindowResize: true,
       mouseWheelZoomEnabled: this.enableMouseWheelZoom,
+      minZoom: this.minZoom,
+      maxZoom: this.maxZoom,
+      zoomSensitivity: this.zoomSensitivity,
+      mouseWheelZoomSensitivity: this.mouseWheelZoomSensitivity,
+      fitPaddingPercent: this.fitPaddingPercent,
     });
 
     this.camera.onPan.subscribe(() => {
       this.panOccurred = true;
+      this.updateMinimapViewport();
     });
 
     this.camera.onZoom.subscribe((newScale: number) => {
       this.zoom.emit({newScale});
+      this.updateMinimapViewport();
     });
+
+    this.viewStateSubscription =
+        merge(this.camera.onPan, this.camera.onZoom, this.select)
+            .pipe(debounceTime(VIEW_STATE_DEBOUNCE_MS))
+            .subscribe(() => {
+              this.viewStateChange.emit(this.getViewState());
+            });
+
+    this.updateMinimapViewport();
+
+    if (this.pendingViewState) {
+      this.setViewState(this.pendingViewState);
+      this.pendingViewState = undefined;
+    }
+  }
+
+  /**
+   * Returns the current pan, zoom and selected node, or undefined if the graph
+   * has not been rendered yet.
+   */
+  getViewState(): GraphViewState|undefined {
+    if (!this.camera) {
+      return undefined;
+    }
+
+    const {x, y} = this.camera.getPan();
+    const state: GraphViewState = {pan: {x, y}, zoom: this.camera.getZoom()};
+    if (this.selectedEl && isNode(this.selectedEl)) {
+      state.selectedId = this.selectedEl.id;
+    }
+    return state;
+  }
+
+  /**
+   * Restores a view state returned by getViewState(). If the graph has not
+   * been rendered yet, the view state is restored once it is.
+   */
+  setViewState(state: GraphViewState) {
+    if (!this.camera) {
+      this.pendingViewState = state;
+      return;
+    }
+
+    this.selectNodeById(state.selectedId);
+
+    // Zooming pans around the center of the camera, so the pan is restored
+    // after the zoom.
+    this.camera.zoom(state.zoom);
+    this.camera.pan(state.pan);
+  }
+
+  /**
+   * Resets the camera after a new graph is set, according to
+   * cameraResetBehaviorOnGraphSet.
+   */
+  private applyCameraResetBehaviorOnGraphSet() {
+    // Camera reset needs to happen outside of the Angular component rendering
+    // lifecycle so that it waits for the graph to be painted on to the DOM
+    // correctly before attempting to recenter.
+    switch (this.cameraResetBehaviorOnGraphSet) {
+      case CameraResetBehaviorEnum.RESET:
+        setTimeout(() => {
+          this.resetCamera();
+        }, 0);
+        break;
+      case CameraResetBehaviorEnum.SMOOTH_RESET:
+        setTimeout(() => {
+          this.smoothResetCamera();
+        }, 0);
+        break;
+      default:
+    }
   }
 
   /**
@@ -658,16 +1925,56 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     }
   }
 
+  /**
+   * Pans and zooms the camera so the nodes or groups with the given ids fill
+   * the view. Ids that are not visible in the graph are ignored.
+   */
+  fitNodes(ids: string[], options: FitOptions = {}) {
+    const idSet = new Set(ids);
+    const {nodes, groups} = this.visibleGraph;
+    const rects = [...nodes, ...(groups || [])]
+                      .filter(n => idSet.has(n.id))
+                      .filter(n => n.x !== undefined && n.y !== undefined)
+                      .map(nodeToRect);
+    if (this.camera && rects.length > 0) {
+      this.camera.fitRegion(getBoundingRect(rects), options);
+    }
+  }
+
   /**
    * Pans the camera so a node with the given id is in view.
    */
   panNodeIntoView(id: string) {
-    const node = this.graph.nodes.find(n => n.id === id);
+    const node = this.visibleGraph.nodes.find(n => n.id === id);
     if (this.camera && node) {
       this.camera.panNodeIntoView(node);
     }
   }
 
+  /**
+   * Returns the rendered graph as a standalone svg document, or undefined if
+   * the graph has not been rendered.
+   */
+  exportSvg(): string|undefined {
+    if (!this.graphEl || !this.existGraphElement()) {
+      return undefined;
+    }
+    return exportSvg(this.graphEl.nativeElement).svg;
+  }
+
+  /**
+   * Returns the rendered graph as a png image. The scale multiplies the size
+   * of the image, eg 2 for high density displays. Rejects if the graph has
+   * not been rendered.
+   */
+  exportPng(scale = 1): Promise<Blob> {
+    if (!this.graphEl || !this.existGraphElement()) {
+      return Promise.reject(new Error('The graph has not been rendered.'));
+    }
+    return svgToPng(
+        exportSvg(this.graphEl.nativeElement), scale, this.document);
+  }
+
   /**
    * Converts the coordinates from a mouse event into the svg graph space.
    *
@@ -685,10 +1992,18 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
   @HostListener('keyup', ['$event'])
   keyEvent(event: KeyboardEvent) {
     if (!!this.editable) {
-      // Handle deletes on the selected element when the keyboard focus is
+      // Handle deletes on the selected elements when the keyboard focus is
       // elsewhere
-      if (isDeleteEvent(event) && !!this.selectedEl) {
-        this.deleteNodeOrEdge(this.selectedEl);
+      if (isDeleteEvent(event) && this.selection.size > 0) {
+        this.deleteElements([...this.selection.values()]);
+      }
+    }
+
+    if (!!this.editable) {
+      if (isUndoEvent(event)) {
+        this.undo();
+      } else if (isRedoEvent(event)) {
+        this.redo();
       }
     }
 
@@ -698,9 +2013,14 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     }
   }
 
-  /** Starts a graph edit when dragging a node */
+  /**
+   * Starts moving the node, or a graph edit, when dragging a node. When both
+   * are enabled, edits require holding alt.
+   */
   nodeMouseDown($event: MouseEvent, node: Node) {
-    if (this.editable) {
+    if (this.enableNodeDragging && !(this.editable && $event.altKey)) {
+      this.startNodeMove($event, node);
+    } else if (this.editable && !this.isDerivedElement(node)) {
       this.startDrag(node);
     }
 
@@ -717,9 +2037,17 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
   /** Adds edge creation when dragging onto a node. */
   nodeMouseUp($event: MouseEvent, node: Node) {
     if (this.editable) {
+      const wasDragging = this.dragging;
       this.endDrag();
-      if (this.dragSrcNode && this.dragSrcNode !== node) {
-        this.addEdge(this.dragSrcNode, node);
+      if (wasDragging && this.dragSrcNode && this.dragSrcNode !== node &&
+          !this.isDerivedElement(node)) {
+        const src = this.dragSrcNode;
+        const canCreateEdge = this.canCreateEdge;
+        this.validateEdit(
+            canCreateEdge && (() => canCreateEdge(src, node)),
+            {action: GraphEditAction.CREATE_EDGE, src, dest: node}, () => {
+              this.addEdge(src, node);
+            });
       }
 
       // Prevents the canvas click handler from triggering
@@ -733,33 +2061,47 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     if (this.dragging) {
       this.endDrag();
       const svgPoint = this.domToWorldSpace($event);
-
-      const dest: Node = {
-        id: this.getNewNodeId(),
-        width: DEFAULT_NODE_SIZE,
-        height: DEFAULT_NODE_SIZE,
+      const point = {
         x: svgPoint && svgPoint.x || 0,
         y: svgPoint && svgPoint.y || 0,
       };
 
       if (this.dragSrcNode) {
-        this.deselect();
-        this.addNode(this.dragSrcNode, dest);
+        const src = this.dragSrcNode;
+        const canCreateNode = this.canCreateNode;
+        this.validateEdit(
+            canCreateNode && (() => canCreateNode(src, point)),
+            {action: GraphEditAction.CREATE_NODE, src, point}, () => {
+              const dest: Node = {
+                id: this.getNewNodeId(),
+                width: DEFAULT_NODE_SIZE,
+                height: DEFAULT_NODE_SIZE,
+                ...point,
+              };
+              this.deselect();
+              this.addNode(src, dest);
+            });
       }
     }
     this.changeDetectorRef.markForCheck();
   }
 
-  canvasMouseDown() {
+  canvasMouseDown($event: MouseEvent) {
     // Clear the panOccurred state to begin detection of whether a click is
     // a pan or a plain canvas click
     this.panOccurred = false;
-    this.panning = true;
+
+    // Shift-dragging on the canvas draws a selection box instead of panning
+    if ($event.shiftKey) {
+      this.startSelectionBox($event);
+    } else {
+      this.panning = true;
+    }
     this.changeDetectorRef.markForCheck();
   }
 
   canvasClick($event: MouseEvent) {
-    if (!this.panOccurred) {
+    if (!this.panOccurred && !isMultiSelectEvent($event)) {
       // If we detected a mouseup on the canvas (while we were not adding a
       // node or edge), and a pan did not occur on the canvas while the mouse
       // was down, we consider this a canvas click.
@@ -782,46 +2124,361 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     }
   }
 
-  windowMouseUp($event: MouseEvent) {
-    // If a drag event starts on the canvas and ends up outside of the canvas,
-    // stop the drag
-    if (this.dragging) {
-      this.endDrag();
-      this.changeDetectorRef.markForCheck();
+  windowMouseUp($event: MouseEvent) {
+    // If a drag event starts on the canvas and ends up outside of the canvas,
+    // stop the drag
+    if (this.dragging) {
+      this.endDrag();
+      this.changeDetectorRef.markForCheck();
+    }
+  }
+
+  /**
+   * Handles delete and selection events on a node or edge via key press.
+   */
+  onNodeEdgeKeyPress(el: Node|Edge, event: KeyboardEvent) {
+    if (this.editable && isDeleteEvent(event)) {
+      // Delete node/edge, triggered by delete keypress. If the element is part
+      // of the selection, the whole selection is deleted with it.
+      this.deleteElements(
+          this.isSelected(el) ? [...this.selection.values()] : [el]);
+      return false;
+    } else {
+      this.setSelected(el, {emitEvent: true, focus: true});
+    }
+    return true;
+  }
+
+  /**
+   * Moves the keyboard focus from a node or edge when an arrow key is pressed,
+   * following the rank direction of the layout.
+   */
+  onNodeEdgeKeyDown(el: Node|Edge, event: KeyboardEvent) {
+    const direction = this.enableKeyboardNavigation &&
+        getNavigationDirection(event, this.layout.rankDirection);
+    if (!direction) {
+      return true;
+    }
+
+    let target: Node|undefined;
+    if (isNode(el)) {
+      target = this.getNavigationTarget(el, direction);
+    } else if (direction === 'forward') {
+      target = el.dest;
+    } else if (direction === 'backward') {
+      target = el.src;
+    }
+
+    if (target) {
+      this.setFocus(target);
+      this.panNodeIntoView(target.id);
+    }
+
+    // Prevents the arrow key from scrolling the page.
+    return false;
+  }
+
+  /**
+   * Returns the node that keyboard navigation in the given direction moves to
+   * from a node: the nearest successor when moving forward, the nearest
+   * predecessor when moving backward, and otherwise the nearest sibling on
+   * that side of the node. Siblings are nodes sharing a predecessor or
+   * successor with the node, or in the same rank.
+   */
+  private getNavigationTarget(node: Node, direction: NavigationDirection):
+      Node|undefined {
+    const lib = this.graphLib!;
+    const predecessors = [...getPredecessors(node.id, lib)].filter(isNode);
+    const successors = [...getSuccessors(node.id, lib)].filter(isNode);
+
+    let candidates: Node[];
+    if (direction === 'forward') {
+      candidates = successors;
+    } else if (direction === 'backward') {
+      candidates = predecessors;
+    } else {
+      const horizontal = isHorizontal(this.layout);
+      const rankPosition = (n: Node) => (horizontal ? n.x : n.y) || 0;
+      const crossPosition = (n: Node) => (horizontal ? n.y : n.x) || 0;
+
+      const siblings = new Set<Node>();
+      for (const parent of predecessors) {
+        getSuccessors(parent.id, lib).forEach(el => {
+          if (isNode(el)) siblings.add(el);
+        });
+      }
+      for (const child of successors) {
+        getPredecessors(child.id, lib).forEach(el => {
+          if (isNode(el)) siblings.add(el);
+        });
+      }
+      for (const other of this.visibleGraph.nodes) {
+        if (Math.abs(rankPosition(other) - rankPosition(node)) < 1) {
+          siblings.add(other);
+        }
+      }
+
+      const sign = direction === 'next' ? 1 : -1;
+      candidates = [...siblings].filter(
+          sibling =>
+              (crossPosition(sibling) - crossPosition(node)) * sign > 0);
+    }
+
+    let nearest: Node|undefined;
+    let nearestDistance = Infinity;
+    for (const candidate of candidates) {
+      const distance = Math.hypot(
+          (candidate.x || 0) - (node.x || 0),
+          (candidate.y || 0) - (node.y || 0));
+      if (candidate !== node && distance < nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Handles selection events on a node or edge via click.
+   */
+  onNodeEdgeClick(el: Node|Edge, $event: MouseEvent) {
+    const svgPoint = this.domToWorldSpace($event);
+    const mousePoint = svgPoint ? {x: svgPoint.x, y: svgPoint.y} : undefined;
+    if (isMultiSelectEvent($event)) {
+      this.toggleSelected(el, {emitEvent: true, focus: true, mousePoint});
+    } else {
+      this.setSelected(el, {emitEvent: true, focus: true, mousePoint});
+    }
+    $event.stopPropagation();
+    return true;
+  }
+
+  // BOX SELECTION
+
+  /**
+   * Starts drawing a selection box from the mouse position. Camera panning is
+   * disabled until the box is finished.
+   */
+  private startSelectionBox($event: MouseEvent) {
+    const start = this.domToWorldSpace($event);
+    if (!start || !this.camera) {
+      return;
+    }
+
+    const additive = $event.ctrlKey || $event.metaKey;
+    this.camera.setPanEnabled(false);
+    this.selectionBoxStart = start;
+    this.selectionBox = rectFromPoints(start, start);
+
+    // The window is listened to so that the box keeps tracking the mouse if
+    // it leaves the canvas.
+    const nativeWindow = this.windowRef.native;
+    this.selectionBoxSubscription = new Subscription();
+    this.selectionBoxSubscription.add(
+        fromEvent<MouseEvent>(nativeWindow, 'mousemove').subscribe((event) => {
+          this.updateSelectionBox(event);
+        }));
+    this.selectionBoxSubscription.add(
+        fromEvent<MouseEvent>(nativeWindow, 'mouseup').subscribe(() => {
+          this.endSelectionBox(additive);
+        }));
+  }
+
+  /** Resizes the selection box to reach the mouse position. */
+  private updateSelectionBox($event: MouseEvent) {
+    const point = this.domToWorldSpace($event);
+    if (!point || !this.selectionBoxStart) {
+      return;
+    }
+    this.selectionBox = rectFromPoints(this.selectionBoxStart, point);
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Selects every node intersecting the selection box, along with the edges
+   * connecting them. When additive, the existing selection is kept.
+   */
+  private endSelectionBox(additive: boolean) {
+    const box = this.selectionBox;
+    if (this.selectionBoxSubscription) {
+      this.selectionBoxSubscription.unsubscribe();
+      this.selectionBoxSubscription = undefined;
+    }
+    if (this.camera) {
+      this.camera.setPanEnabled(true);
+    }
+    this.selectionBoxStart = undefined;
+    this.selectionBox = undefined;
+
+    if (!box) {
+      return;
+    }
+
+    const {nodes: allNodes, edges: allEdges} = this.visibleGraph;
+    const nodes = allNodes.filter(n => rectsIntersect(nodeToRect(n), box));
+    const inBox = new Set(nodes);
+    const edges = allEdges.filter(e => inBox.has(e.src) && inBox.has(e.dest));
+    const existing = additive ? [...this.selection.values()] : [];
+
+    this.setSelection([...existing, ...edges, ...nodes], {emitEvent: true});
+  }
+
+  // NODE DRAGGING
+
+  /**
+   * Starts repositioning a node with the mouse. If the node is selected, every
+   * selected node is moved along with it.
+   */
+  private startNodeMove($event: MouseEvent, node: Node) {
+    const start = this.domToWorldSpace($event);
+    if (!start) {
+      return;
+    }
+
+    const nodes = this.isSelected(node) ?
+        partitionElements([...this.selection.values()]).nodes :
+        [node];
+    this.nodeMove = {
+      start,
+      nodes: nodes.map(n => ({node: n, x: n.x || 0, y: n.y || 0})),
+      moved: false,
+    };
+
+    const nativeWindow = this.windowRef.native;
+    this.nodeMoveSubscription = new Subscription();
+    this.nodeMoveSubscription.add(
+        fromEvent<MouseEvent>(nativeWindow, 'mousemove').subscribe((event) => {
+          this.moveNodes(event);
+        }));
+    this.nodeMoveSubscription.add(
+        fromEvent<MouseEvent>(nativeWindow, 'mouseup').subscribe(() => {
+          this.endNodeMove();
+        }));
+  }
+
+  /**
+   * Moves the nodes being dragged to follow the mouse. Their edges are redrawn
+   * directly between the nodes while moving.
+   */
+  private moveNodes($event: MouseEvent) {
+    const point = this.domToWorldSpace($event);
+    if (!point || !this.nodeMove) {
+      return;
+    }
+
+    const {start, nodes} = this.nodeMove;
+    const moved = new Set<Node>();
+    for (const {node, x, y} of nodes) {
+      node.x = x + point.x - start.x;
+      node.y = y + point.y - start.y;
+      moved.add(node);
+    }
+
+    for (const edge of this.visibleGraph.edges) {
+      if (moved.has(edge.src) || moved.has(edge.dest)) {
+        edge.points = [];
+      }
+    }
+
+    this.nodeMove.moved = true;
+    this.changeDetectorRef.markForCheck();
+  }
+
+  /**
+   * Pins the moved nodes at their new positions, re-lays out the graph around
+   * them and emits a move event for each.
+   */
+  private endNodeMove() {
+    const state = this.nodeMove;
+    if (this.nodeMoveSubscription) {
+      this.nodeMoveSubscription.unsubscribe();
+      this.nodeMoveSubscription = undefined;
+    }
+    this.nodeMove = undefined;
+    this.changeDetectorRef.markForCheck();
+
+    if (!state || !state.moved) {
+      return;
+    }
+
+    for (const {node} of state.nodes) {
+      node.pinned = true;
+    }
+    this.updateGraphLayout();
+
+    for (const {node} of state.nodes) {
+      this.move.emit({node, position: {x: node.x!, y: node.y!}});
+    }
+  }
+
+  // FUNCTIONS FOR UPDATING GRAPH TOPOLOGY
+
+  /** True if there is an edit that can be undone. */
+  get canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  /** True if there is an undone edit that can be redone. */
+  get canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /** Reverts the most recent edit to the graph. */
+  undo() {
+    const mutation = this.history.undo();
+    if (mutation) {
+      this.applyMutation(mutation);
+    }
+  }
+
+  /** Re-applies the most recently undone edit to the graph. */
+  redo() {
+    const mutation = this.history.redo();
+    if (mutation) {
+      this.applyMutation(mutation);
     }
   }
 
   /**
-   * Handles delete and selection events on a node or edge via key press.
+   * Makes an edit if the validation hook allows it, or emits a rejected event
+   * otherwise. Edits without a hook are always allowed. Edits that are only
+   * allowed after the graph has changed to no longer contain their nodes are
+   * dropped.
    */
-  onNodeEdgeKeyPress(el: Node|Edge, event: KeyboardEvent) {
-    if (this.editable && isDeleteEvent(event)) {
-      // Delete node/edge, triggered by delete keypress
-      this.deleteNodeOrEdge(el);
-      return false;
-    } else {
-      this.setSelected(el, {emitEvent: true, focus: true});
+  private validateEdit(
+      validate: (() => EditValidationResult |
+                 PromiseLike<EditValidationResult>)|undefined,
+      rejection: GraphRejectEvent,
+      apply: () => void,
+  ) {
+    if (!validate) {
+      apply();
+      return;
     }
-    return true;
-  }
 
-  /**
-   * Handles selection events on a node or edge via click.
-   */
-  onNodeEdgeClick(el: Node|Edge, $event: MouseEvent) {
-    const svgPoint = this.domToWorldSpace($event);
-    const mousePoint = svgPoint ? {x: svgPoint.x, y: svgPoint.y} : undefined;
-    this.setSelected(el, {emitEvent: true, focus: true, mousePoint});
-    $event.stopPropagation();
-    return true;
+    resolveValidation(validate, result => {
+      if (result !== true) {
+        this.rejected.emit({...rejection, reason: getRejectionReason(result)});
+      } else if (
+          [rejection.src, rejection.dest].every(
+              node => !node || this.graph.nodes.includes(node))) {
+        apply();
+      }
+      this.changeDetectorRef.markForCheck();
+    });
   }
 
-  // FUNCTIONS FOR UPDATING GRAPH TOPOLOGY
-
   /** Adds a new edge to the graph. */
   private addEdge(src: Node, dest: Node) {
-    const edge = {src, dest, points: []};
+    const edge: Edge = {src, dest, points: []};
     this.graph.edges.push(edge);
+    assignEdgeIds(this.graph.edges);
+    this.history.record({
+      addedNodes: [],
+      addedEdges: [edge],
+      removedNodes: [],
+      removedEdges: [],
+    });
     this.changeDetectorRef.markForCheck();
 
     // Give the new elements a chance to update so that they can be tracked,
@@ -840,6 +2497,12 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     const edge = {src, dest, points: []};
     this.graph.nodes.push(dest);
     this.graph.edges.push(edge);
+    this.history.record({
+      addedNodes: [dest],
+      addedEdges: [edge],
+      removedNodes: [],
+      removedEdges: [],
+    });
     this.changeDetectorRef.markForCheck();
 
     // Give the new elements a chance to update so that they can be tracked,
@@ -853,28 +2516,103 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     }, 0);
   }
 
-  /** Deletes a node or edge. */
-  private deleteNodeOrEdge(el: Node|Edge) {
-    let deleteEvent;
-    if (isNode(el)) {
-      // Reflect changes in the graph
-      const i = this.graph.nodes.indexOf(el);
-      if (i > -1) {
-        this.graph.nodes.splice(i, 1);
-      }
+  /**
+   * Deletes a set of nodes and edges, emitting a single delete event for all
+   * of them.
+   */
+  private deleteElements(els: Array<Node|Edge>) {
+    els = els.filter(el => !this.isDerivedElement(el));
+    if (els.length === 0) {
+      return;
+    }
+
+    const canDelete = this.canDelete;
+    if (!canDelete) {
+      this.removeElements(els);
+      return;
+    }
 
-      // Remove incoming/outgoing edges
-      this.graph.edges =
-          this.graph.edges.filter(edge => edge.src !== el && edge.dest !== el);
+    // Deleting a node deletes its edges too, so they are validated as well.
+    const deletedNodes = new Set(els.filter(isNode));
+    const connectedEdges = this.graph.edges.filter(
+        edge => !els.includes(edge) &&
+            (deletedNodes.has(edge.src) || deletedNodes.has(edge.dest)));
+    const validated = [...els, ...connectedEdges];
+
+    // Each element is validated separately, and the allowed ones are deleted
+    // once every result is known.
+    const results = new Map<Node|Edge, EditValidationResult>();
+    for (const el of validated) {
+      resolveValidation(() => canDelete(el), result => {
+        results.set(el, result);
+        if (results.size < validated.length) {
+          return;
+        }
+
+        // Nodes are only deleted if all of their edges may be deleted too.
+        // Edges may have been added or removed while waiting for the results.
+        const isAllowed = (el: Node|Edge) => results.get(el) === true &&
+            (!isNode(el) ||
+             this.graph.edges.every(
+                 edge => (edge.src !== el && edge.dest !== el) ||
+                     results.get(edge) === true));
+
+        const rejected = validated.filter(el => !isAllowed(el));
+        if (rejected.length > 0) {
+          const reason = [...results.values()].find(r => typeof r === 'string');
+          this.rejected.emit({
+            action: GraphEditAction.DELETE,
+            reason: getRejectionReason(reason || false),
+            elements: rejected,
+          });
+        }
+
+        // Elements may have been removed while waiting for the results.
+        const allowed = els.filter(
+            el => isAllowed(el) &&
+                (isNode(el) ? this.graph.nodes.includes(el) :
+                              this.graph.edges.includes(el)));
+        if (allowed.length > 0) {
+          this.removeElements(allowed);
+        }
+        this.changeDetectorRef.markForCheck();
+      });
+    }
+  }
+
+  /**
+   * Removes a set of nodes and edges from the graph, emitting a single delete
+   * event for all of them.
+   */
+  private removeElements(els: Array<Node|Edge>) {
+    const {nodes, edges} = partitionElements(els);
+    const deletedNodes = new Set(nodes);
+    const deletedEdges = new Set(edges);
+
+    // Reflect changes in the graph
+    this.graph.nodes = this.graph.nodes.filter(n => !deletedNodes.has(n));
+
+    // Remove the edges, as well as incoming/outgoing edges of deleted nodes
+    const removedEdges = this.graph.edges.filter(
+        edge => deletedEdges.has(edge) || deletedNodes.has(edge.src) ||
+            deletedNodes.has(edge.dest));
+    const removed = new Set(removedEdges);
+    this.graph.edges = this.graph.edges.filter(edge => !removed.has(edge));
+
+    this.history.record({
+      addedNodes: [],
+      addedEdges: [],
+      removedNodes: nodes,
+      removedEdges,
+    });
 
-      deleteEvent = {node: el};
-    } else if (isEdge(el)) {
-      // Reflect changes in the graph
-      const i = this.graph.edges.indexOf(el);
-      if (i > -1) {
-        this.graph.edges.splice(i, 1);
+    const deleteEvent: GraphDeleteEvent = {nodes, edges};
+    if (els.length === 1) {
+      if (nodes.length) {
+        deleteEvent.node = nodes[0];
+      } else {
+        deleteEvent.edge = edges[0];
       }
-      deleteEvent = {edge: el};
     }
 
     this.updateGraphLayout();
@@ -883,6 +2621,59 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     this.delete.emit(deleteEvent);
   }
 
+  /**
+   * Applies a mutation from the edit history to the graph, emitting delete
+   * and create events for the elements it removes and adds.
+   *
+   * Elements are matched by id rather than by reference, so that history
+   * still applies after the host supplies an updated copy of the graph.
+   */
+  private applyMutation(mutation: GraphMutation) {
+    const removedIds = new Set(
+        [...mutation.removedNodes, ...mutation.removedEdges].map(getId));
+    const isRemoved = (el: Node|Edge) => removedIds.has(getId(el));
+    const removedNodes = this.graph.nodes.filter(isRemoved);
+    const removedEdges = this.graph.edges.filter(
+        edge => isRemoved(edge) || isRemoved(edge.src) || isRemoved(edge.dest));
+    const removed = new Set<Node|Edge>([...removedNodes, ...removedEdges]);
+    this.graph.nodes = this.graph.nodes.filter(n => !removed.has(n));
+    this.graph.edges = this.graph.edges.filter(e => !removed.has(e));
+
+    const existingIds = new Set(this.graph.nodes.map(getId));
+    const addedNodes =
+        mutation.addedNodes.filter(n => !existingIds.has(getId(n)));
+    this.graph.nodes.push(...addedNodes);
+
+    // Re-attach restored edges to the current node objects, skipping any
+    // whose endpoints no longer exist.
+    const nodesById = new Map(this.graph.nodes.map(n => [n.id, n]));
+    const addedEdges: Edge[] = [];
+    for (const edge of mutation.addedEdges) {
+      const src = nodesById.get(edge.src.id);
+      const dest = nodesById.get(edge.dest.id);
+      if (src && dest) {
+        edge.src = src;
+        edge.dest = dest;
+        addedEdges.push(edge);
+      }
+    }
+    this.graph.edges.push(...addedEdges);
+    assignEdgeIds(this.graph.edges);
+
+    this.updateGraphLayout();
+    this.updatePriorSelectionsAfterGraphMutation();
+    this.updateHighlightedRelatives();
+    this.updateNodeIds();
+    this.changeDetectorRef.markForCheck();
+
+    if (removedNodes.length || removedEdges.length) {
+      this.delete.emit(toGraphEvent(removedNodes, removedEdges));
+    }
+    if (addedNodes.length || addedEdges.length) {
+      this.create.emit(toGraphEvent(addedNodes, addedEdges));
+    }
+  }
+
   /**
    * Examines the existing selection state (hover + selected) and verifies that
    * it is still valid given the current graph object. If the current selection
@@ -894,13 +2685,18 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
    * persisted.
    */
   private updatePriorSelectionsAfterGraphMutation() {
-    const everything = [...this.graph.nodes, ...this.graph.edges];
-
-    if (this.selectedEl) {
-      const oldId = getId(this.selectedEl);
-      const found = everything.find(el => getId(el) === oldId);
-      if (found !== this.selectedEl) {
-        this.setSelected(found, {emitEvent: false});
+    const everything =
+        [...this.visibleGraph.nodes, ...this.visibleGraph.edges];
+
+    if (this.selection.size > 0) {
+      const lookup = new Map(everything.map(el => [getId(el), el]));
+      const prior = [...this.selection.entries()];
+      const found = prior.map(([id]) => lookup.get(id))
+                        .filter((el): el is Node|Edge => !!el);
+      const changed = found.length !== prior.length ||
+          found.some((el, i) => el !== prior[i][1]);
+      if (changed) {
+        this.setSelection(found, {emitEvent: false});
       }
     }
 
@@ -922,7 +2718,7 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
    * Sets the focus to the provided element.
    */
   private setFocus(el: Node|Edge): void {
-    if (this.editable) {
+    if (this.isKeyboardFocusable(el)) {
       const found = this.document.querySelector<HTMLElement>(`g#${getId(el)}`)!;
       if (!!found) {
         found.focus();
@@ -930,11 +2726,35 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     }
   }
 
+  /**
+   * Returns true if the element can receive the keyboard focus. Edges are only
+   * focusable in editable graphs.
+   */
+  isKeyboardFocusable(el: Node|Edge): boolean {
+    return this.editable || (this.enableKeyboardNavigation && isNode(el));
+  }
+
   /**
    * Returns whether the provided element is selected.
    */
   isSelected(el: Node|Edge): boolean {
-    return !!this.selectedEl && (getId(this.selectedEl) === getId(el));
+    return this.selection.has(getId(el));
+  }
+
+  /**
+   * Returns true if nodes and edges fade in when added, and move smoothly to
+   * new positions.
+   */
+  isAnimated(): boolean {
+    return this.enableNodeEdgeAnimation || this.enableIncrementalUpdates;
+  }
+
+  /**
+   * Returns true if the node or edge was added by an incremental update, and
+   * is waiting on the layout for its position.
+   */
+  isUnplaced(el: Node|Edge): boolean {
+    return this.unplacedElements.has(el);
   }
 
   /**
@@ -951,6 +2771,30 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     return el === this.highlightedEl;
   }
 
+  /**
+   * Returns the strongly connected components of the visible graph that
+   * contain cycles. The graph is acyclic if there are none.
+   */
+  getCycles(): Node[][] {
+    return this.cycles.components;
+  }
+
+  /**
+   * Returns true if the node or edge is part of a cycle.
+   */
+  isInCycle(el: Node|Edge): boolean {
+    return isEdge(el) ? this.cycles.cycleEdges.has(el) :
+                        this.cycleNodes.has(el);
+  }
+
+  /**
+   * Returns true if the edge closes a cycle, meaning that it points back
+   * against the direction of the rest of the cycle.
+   */
+  isBackEdge(edge: Edge): boolean {
+    return this.cycles.backEdges.has(edge);
+  }
+
   /**
    * Returns true if the element is a predecessor to the currently highlighted
    * element.
@@ -967,6 +2811,22 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
     return this.successors.has(el);
   }
 
+  /**
+   * Returns the number of hops between the element and the highlighted
+   * element: 0 for the highlighted element itself, 1 for its direct relatives,
+   * and so on. Returns undefined if the element is not highlighted.
+   */
+  getHighlightDistance(el: Node|Edge): number|undefined {
+    return el === this.highlightedEl ? 0 : this.relativeDistances.get(el);
+  }
+
+  /**
+   * Returns true if the element is along the highlighted path.
+   */
+  isOnPath(el: Node|Edge): boolean {
+    return this.pathElements.has(el);
+  }
+
   /**
    * Returns a point (in svg space) where the selected item was selected by the
    * mouse. Returns undefined if the passed element is not current selected
@@ -1007,6 +2867,8 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
   /** Updates state at the end of a drag. */
   private endDrag() {
     this.dragging = false;
+    this.dropTargetNode = undefined;
+    this.dropTargetRejected = false;
     this.dragEdge.src = this.dragNode;
     this.dragEdge.dest = this.dragNode;
   }
@@ -1019,6 +2881,29 @@ export class GraphComponent implements AfterViewInit, OnChanges, OnDestroy {
   }
 }
 
+/**
+ * Options accepted when changing the selection.
+ */
+interface SelectionOptions {
+  emitEvent?: boolean;
+  focus?: boolean;
+  mousePoint?: Point;
+}
+
+/**
+ * The nodes being repositioned by the user, and where the drag started.
+ */
+interface NodeMoveState {
+  /** The mouse position (in svg space) where the drag started. */
+  start: Point;
+
+  /** The nodes being moved, along with their starting positions. */
+  nodes: Array<{node: Node, x: number, y: number}>;
+
+  /** True once the mouse has moved since the drag started. */
+  moved: boolean;
+}
+
 /**
  * Returns an empty graph.
  */
@@ -1027,23 +2912,33 @@ function emptyGraph(): Graph {
 }
 
 /**
- * Converts the graph layout options interface to the structure used by dagre.
+ * Copies the positions computed by a layout engine onto the graph's nodes,
+ * groups and edges.
  */
-function convertToDagreOptions(layout: LayoutOptions): GraphLabel {
-  const alignment = layout.rankAlignment === RankAlignment.NONE ?
-      undefined :
-      layout.rankAlignment;
+function applyLayoutResult(graph: Graph, result: LayoutResult) {
+  for (const node of graph.nodes) {
+    const position = result.nodes.get(node.id);
+    if (position) {
+      node.x = position.x;
+      node.y = position.y;
+    }
+  }
 
-  return {
-    rankdir: layout.rankDirection,
-    align: alignment,
-    ranksep: layout.rankSeparation,
-    nodesep: layout.nodeSeparation,
-    edgesep: layout.edgeSeparation,
-    ranker: layout.ranker,
-    marginx: 0,
-    marginy: 0,
-  };
+  for (const group of (graph.groups || [])) {
+    const bounds = result.groups.get(group.id);
+    if (bounds) {
+      group.x = bounds.x;
+      group.y = bounds.y;
+      group.width = bounds.width;
+      group.height = bounds.height;
+    }
+  }
+
+  graph.edges.forEach((edge, i) => {
+    edge.points = result.edges[i] || [];
+    edge.labelPosition =
+        result.edgeLabels ? result.edgeLabels[i] : undefined;
+  });
 }
 
 /**
@@ -1053,12 +2948,11 @@ function convertToDagreOptions(layout: LayoutOptions): GraphLabel {
 function getPredecessors(nodeId: string, graphLib: graphlib.Graph) {
   const seen = new Set<Node|Edge>();
 
-  // dagre predecessors typings are incorrect. It returns strings:
-  const rawRelativeIds = graphLib.predecessors(nodeId) || [] as unknown;
-  const relativeIds = rawRelativeIds as string[];
+  const relativeIds = getPredecessorIds(nodeId, graphLib);
 
   const nodes = relativeIds.map(rid => graphLib.node(rid) as Node);
-  const edges = relativeIds.map(rid => graphLib.edge(rid, nodeId) as Edge);
+  const edges = ([] as Edge[]).concat(
+      ...relativeIds.map(rid => getEdgesBetween(rid, nodeId, graphLib)));
 
   nodes.forEach(n => {
     seen.add(n);
@@ -1077,12 +2971,11 @@ function getPredecessors(nodeId: string, graphLib: graphlib.Graph) {
 function getSuccessors(nodeId: string, graphLib: graphlib.Graph) {
   const seen = new Set<Node|Edge>();
 
-  // dagre successors typings are incorrect. It returns strings:
-  const rawRelativeIds = graphLib.successors(nodeId) || [] as unknown;
-  const relativeIds = rawRelativeIds as string[];
+  const relativeIds = getSuccessorIds(nodeId, graphLib);
 
   const nodes = relativeIds.map(rid => graphLib.node(rid) as Node);
-  const edges = relativeIds.map(rid => graphLib.edge(nodeId, rid) as Edge);
+  const edges = ([] as Edge[]).concat(
+      ...relativeIds.map(rid => getEdgesBetween(nodeId, rid, graphLib)));
 
   nodes.forEach(n => {
     seen.add(n);
@@ -1094,6 +2987,191 @@ function getSuccessors(nodeId: string, graphLib: graphlib.Graph) {
   return seen;
 }
 
+/**
+ * Returns the relatives of a node found by repeatedly following getRelatives,
+ * along with their distance in hops. Only direct relatives are returned unless
+ * transitive is set. The node itself is included when given a distance, eg to
+ * find the relatives of an edge's endpoint.
+ */
+function getRelativeDistances(
+    node: Node,
+    graphLib: graphlib.Graph,
+    getRelatives: (nodeId: string, graphLib: graphlib.Graph) => Set<Node|Edge>,
+    transitive: boolean,
+    nodeDistance = 0,
+    ): Map<Node|Edge, number> {
+  const distances = new Map<Node|Edge, number>();
+  if (nodeDistance > 0) {
+    distances.set(node, nodeDistance);
+  }
+
+  let frontier = [node.id];
+  let distance = nodeDistance + 1;
+  while (frontier.length && (transitive || distance === 1)) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const relative of getRelatives(id, graphLib)) {
+        if (relative === node || distances.has(relative)) {
+          continue;
+        }
+        distances.set(relative, distance);
+        if (isNode(relative)) {
+          next.push(relative.id);
+        }
+      }
+    }
+    frontier = next;
+    distance++;
+  }
+  return distances;
+}
+
+/**
+ * Returns the ids of the nodes that the given node has an edge to.
+ */
+function getSuccessorIds(nodeId: string, graphLib: graphlib.Graph): string[] {
+  // dagre successors typings are incorrect. It returns strings:
+  const rawRelativeIds = graphLib.successors(nodeId) || [] as unknown;
+  return rawRelativeIds as string[];
+}
+
+/**
+ * Returns the ids of the nodes that have an edge to the given node.
+ */
+function getPredecessorIds(nodeId: string, graphLib: graphlib.Graph): string[] {
+  // dagre predecessors typings are incorrect. It returns strings:
+  const rawRelativeIds = graphLib.predecessors(nodeId) || [] as unknown;
+  return rawRelativeIds as string[];
+}
+
+/**
+ * Returns every edge from one node to another.
+ */
+function getEdgesBetween(
+    srcId: string, destId: string, graphLib: graphlib.Graph): Edge[] {
+  const edges = graphLib.outEdges(srcId, destId) || [];
+  return edges.map(e => graphLib.edge(e) as Edge);
+}
+
+/**
+ * Returns the nodes and edges along the shortest directed path between two
+ * nodes, or an empty set if there is none. Every edge between consecutive
+ * nodes on the path is included.
+ */
+function findShortestPath(
+    srcId: string, destId: string, graphLib: graphlib.Graph): Set<Node|Edge> {
+  // Breadth first search, remembering how each node was first reached.
+  const previous = new Map<string, string>();
+  const queue = [srcId];
+  for (let i = 0; i < queue.length && !previous.has(destId); i++) {
+    for (const nextId of getSuccessorIds(queue[i], graphLib)) {
+      if (nextId !== srcId && !previous.has(nextId)) {
+        previous.set(nextId, queue[i]);
+        queue.push(nextId);
+      }
+    }
+  }
+
+  const path = new Set<Node|Edge>();
+  if (srcId !== destId && !previous.has(destId)) {
+    return path;
+  }
+
+  let id = destId;
+  path.add(graphLib.node(id) as Node);
+  while (id !== srcId) {
+    const prevId = previous.get(id)!;
+    for (const edge of getEdgesBetween(prevId, id, graphLib)) {
+      path.add(edge);
+    }
+    path.add(graphLib.node(prevId) as Node);
+    id = prevId;
+  }
+  return path;
+}
+
+/**
+ * Returns every node and edge along any directed path between two nodes: the
+ * nodes that are both reachable from the source and able to reach the
+ * destination, and the edges between them. Returns an empty set if there is
+ * no path.
+ */
+function findAllPathElements(
+    srcId: string, destId: string, graphLib: graphlib.Graph): Set<Node|Edge> {
+  const fromSrc = getReachableIds(srcId, id => getSuccessorIds(id, graphLib));
+  const toDest = getReachableIds(destId, id => getPredecessorIds(id, graphLib));
+
+  const path = new Set<Node|Edge>();
+  if (!fromSrc.has(destId)) {
+    return path;
+  }
+
+  const onPath = [...fromSrc].filter(id => toDest.has(id));
+  for (const id of onPath) {
+    path.add(graphLib.node(id) as Node);
+    for (const nextId of getSuccessorIds(id, graphLib)) {
+      if (fromSrc.has(nextId) && toDest.has(nextId)) {
+        for (const edge of getEdgesBetween(id, nextId, graphLib)) {
+          path.add(edge);
+        }
+      }
+    }
+  }
+  return path;
+}
+
+/**
+ * Returns the ids of every node reachable from a node (including itself) by
+ * repeatedly following getNextIds.
+ */
+function getReachableIds(
+    startId: string, getNextIds: (id: string) => string[]): Set<string> {
+  const reachable = new Set([startId]);
+  const stack = [startId];
+  while (stack.length > 0) {
+    for (const nextId of getNextIds(stack.pop()!)) {
+      if (!reachable.has(nextId)) {
+        reachable.add(nextId);
+        stack.push(nextId);
+      }
+    }
+  }
+  return reachable;
+}
+
+/**
+ * Returns a rectangle expanded outward in every direction by the given amount.
+ */
+function expandRect(rect: Rect, amount: number): Rect {
+  return {
+    top: rect.top - amount,
+    left: rect.left - amount,
+    bottom: rect.bottom + amount,
+    right: rect.right + amount,
+  };
+}
+
+/**
+ * Returns the smallest rectangle containing all of the given rectangles.
+ */
+function getBoundingRect(rects: Rect[]): Rect {
+  return {
+    top: Math.min(...rects.map(r => r.top)),
+    left: Math.min(...rects.map(r => r.left)),
+    bottom: Math.max(...rects.map(r => r.bottom)),
+    right: Math.max(...rects.map(r => r.right)),
+  };
+}
+
+/**
+ * Returns true if two graphs hold nodes and edges with the same ids.
+ */
+function hasSameElements(a: Graph, b: Graph): boolean {
+  const ids = new Set([...a.nodes, ...a.edges].map(getId));
+  const otherIds = new Set([...b.nodes, ...b.edges].map(getId));
+  return ids.size === otherIds.size && [...ids].every(id => otherIds.has(id));
+}
+
 /**
  * Creates a shallow copy of the provided graph, two levels deep.
  */
@@ -1105,12 +3183,53 @@ function shallowCopy(g: Graph): Graph {
   };
 }
 
+/**
+ * Calls back with the result of an edit validation hook: synchronously, unless
+ * the hook returns a promise. Hooks that throw or reject are treated as
+ * rejecting the edit, with the error as the reason.
+ */
+function resolveValidation(
+    validate: () => EditValidationResult | PromiseLike<EditValidationResult>,
+    callback: (result: EditValidationResult) => void,
+) {
+  let result: EditValidationResult|PromiseLike<EditValidationResult>;
+  try {
+    result = validate();
+  } catch (error) {
+    callback(String(error));
+    return;
+  }
+
+  if (isPromiseLike(result)) {
+    result.then(callback, (error) => {
+      callback(String(error));
+    });
+  } else {
+    callback(result);
+  }
+}
+
+/**
+ * Returns the reason given by a rejecting validation result, if any.
+ */
+function getRejectionReason(result: EditValidationResult): string|undefined {
+  return typeof result === 'string' ? result : undefined;
+}
+
+/**
+ * Typeguard for a promise, or other object that can be awaited.
+ */
+function isPromiseLike<T>(value: T|PromiseLike<T>): value is PromiseLike<T> {
+  return typeof (value as Partial<PromiseLike<T>>).then === 'function';
+}
+
 /**
  * Typeguard for a Node.
  */
 function isNode(el: Node|Edge): el is Node {
+  // Edges may also have ids, so they are ruled out first.
   const cast = el as Node;
-  return !!cast.id;
+  return !!cast.id && !isEdge(el);
 }
 
 /**
@@ -1121,14 +3240,92 @@ function isEdge(el: Node|Edge): el is Edge {
   return !!cast.src && !!cast.dest;
 }
 
+/**
+ * Splits a list of graph elements into its nodes and edges.
+ */
+function partitionElements(els: Array<Node|Edge>) {
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  for (const el of els) {
+    if (isNode(el)) {
+      nodes.push(el);
+    } else {
+      edges.push(el);
+    }
+  }
+  return {nodes, edges};
+}
+
+/**
+ * Builds a create or delete event for a set of nodes and edges. The singular
+ * node/edge fields are set when exactly one of that kind is present.
+ */
+function toGraphEvent(nodes: Node[], edges: Edge[]):
+    GraphCreateEvent&GraphDeleteEvent {
+  return {
+    node: nodes.length === 1 ? nodes[0] : undefined,
+    edge: edges.length === 1 ? edges[0] : undefined,
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * Returns the smallest rectangle containing both points.
+ */
+function rectFromPoints(p1: Point, p2: Point): Rect {
+  return {
+    top: Math.min(p1.y, p2.y),
+    left: Math.min(p1.x, p2.x),
+    bottom: Math.max(p1.y, p2.y),
+    right: Math.max(p1.x, p2.x),
+  };
+}
+
+/**
+ * Returns true if the two rectangles overlap.
+ */
+function rectsIntersect(a: Rect, b: Rect): boolean {
+  return a.left <= b.right && a.right >= b.left && a.top <= b.bottom &&
+      a.bottom >= b.top;
+}
+
 /**
  * Returns a unique id for node or edge in the graph.
  */
 function getId(el: Node|Edge): string {
   if (isNode(el)) {
     return `n-${el.id}`;
+  } else if (el.id !== undefined) {
+    return `edge-${el.id}`;
   } else {
-    return `e-${el.src.id}-${el.dest.id}`;
+    return generatedEdgeIds.get(el) || `e-${el.src.id}-${el.dest.id}`;
+  }
+}
+
+/**
+ * Generates ids for edges without one that would otherwise share an id with
+ * another edge, such as edges between the same pair of nodes. Edges with ids
+ * are prefixed differently from the rest by getId, so the two can't clash.
+ * Throws a RangeError if several edges were given the same id.
+ */
+function assignEdgeIds(edges: Edge[]) {
+  const edgeIds = new Set<string>();
+  for (const edge of edges.filter(e => e.id !== undefined)) {
+    if (edgeIds.has(getId(edge))) {
+      throw new RangeError(`Edge id ${edge.id} is used by several edges.`);
+    }
+    edgeIds.add(getId(edge));
+  }
+
+  for (const edge of edges.filter(e => e.id === undefined)) {
+    generatedEdgeIds.delete(edge);
+    let id = getId(edge);
+    for (let i = 1; edgeIds.has(id); i++) {
+      id = `e-${edge.src.id}-${edge.dest.id}-${i}`;
+    }
+    generatedEdgeIds.set(edge, id);
+    edgeIds.add(id);
   }
 }
 
@@ -1139,6 +3336,44 @@ function isDeleteEvent(event?: KeyboardEvent): boolean {
   return !!event && (DELETE_DOM_STRINGS.indexOf(event.key) !== -1);
 }
 
+/**
+ * Returns true iff the provided mouse event should toggle elements in the
+ * selection set rather than replace it.
+ */
+function isMultiSelectEvent(event?: MouseEvent): boolean {
+  return !!event && (event.shiftKey || event.ctrlKey || event.metaKey);
+}
+
+/**
+ * Returns true iff the provided keyboard event signals an undo (ctrl+z).
+ */
+function isUndoEvent(event?: KeyboardEvent): boolean {
+  return !!event && (event.ctrlKey || event.metaKey) && !event.shiftKey &&
+      event.key.toLowerCase() === 'z';
+}
+
+/**
+ * Returns true iff the provided keyboard event signals a redo (ctrl+shift+z).
+ */
+function isRedoEvent(event?: KeyboardEvent): boolean {
+  return !!event && (event.ctrlKey || event.metaKey) && event.shiftKey &&
+      event.key.toLowerCase() === 'z';
+}
+
+/**
+ * Returns the direction the keyboard event moves the focus in, or undefined
+ * if it is not an unmodified arrow key.
+ */
+function getNavigationDirection(
+    event: KeyboardEvent,
+    rankDirection = RankDirection.TOP_TO_BOTTOM,
+    ): NavigationDirection|undefined {
+  if (event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) {
+    return undefined;
+  }
+  return NAVIGATION_KEYS[rankDirection][event.key];
+}
+
 /**
  * Returns true iff the provided keyboard event is an escape event.
  */
@@ -0,0 +1,241 @@
+/**
+ * @license
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Edge, type Graph, Node, Point} from './model';
+
+/**
+ * @fileOverview Utilities for updating a graph incrementally: finding what
+ * changed between two versions of a graph, and keeping the layout of the parts
+ * that stayed the same steady.
+ */
+
+/**
+ * Properties set on nodes and edges by the graph itself, which are ignored
+ * when looking for changes.
+ */
+const LAYOUT_PROPERTIES = new Set(['x', 'y', 'points', 'labelPosition']);
+
+/**
+ * The differences between two versions of a graph. Nodes are matched by id,
+ * and edges by id, or else by the ids of the nodes they join.
+ */
+export interface GraphDiff {
+  /** Nodes that are only in the new graph. */
+  addedNodes: Node[];
+
+  /** Nodes that are only in the old graph. */
+  removedNodes: Node[];
+
+  /** Nodes of the new graph whose properties differ from the old graph. */
+  changedNodes: Node[];
+
+  /** Edges that are only in the new graph. */
+  addedEdges: Edge[];
+
+  /** Edges that are only in the old graph. */
+  removedEdges: Edge[];
+
+  /** Edges of the new graph whose properties differ from the old graph. */
+  changedEdges: Edge[];
+}
+
+/**
+ * Returns true if the diff holds no changes.
+ */
+export function isEmptyDiff(diff: GraphDiff): boolean {
+  return Object.values(diff).every((els: unknown[]) => els.length === 0);
+}
+
+/**
+ * Finds the nodes and edges that were added, removed or changed between two
+ * versions of a graph. Positions computed by the layout are not counted as
+ * changes.
+ */
+export function diffGraphs(prev: Graph, next: Graph): GraphDiff {
+  const prevNodes = new Map(prev.nodes.map(n => [n.id, n]));
+  const nextNodes = new Map(next.nodes.map(n => [n.id, n]));
+  const prevEdges = getEdgesByKey(prev.edges);
+  const nextEdges = getEdgesByKey(next.edges);
+
+  return {
+    addedNodes: next.nodes.filter(n => !prevNodes.has(n.id)),
+    removedNodes: prev.nodes.filter(n => !nextNodes.has(n.id)),
+    changedNodes: next.nodes.filter(n => {
+      const prevNode = prevNodes.get(n.id);
+      return !!prevNode && !isSameElement(prevNode, n);
+    }),
+    addedEdges: [...nextEdges].filter(([key]) => !prevEdges.has(key))
+                    .map(([, edge]) => edge),
+    removedEdges: [...prevEdges].filter(([key]) => !nextEdges.has(key))
+                      .map(([, edge]) => edge),
+    changedEdges: [...nextEdges].filter(([key, edge]) => {
+      const prevEdge = prevEdges.get(key);
+      return !!prevEdge && !isSameElement(prevEdge, edge);
+    }).map(([, edge]) => edge),
+  };
+}
+
+/**
+ * Copies the positions of the nodes, groups and edges of the old graph onto
+ * their counterparts in the new graph, so that they are drawn where they were
+ * until the new graph is laid out.
+ */
+export function copyLayout(prev: Graph, next: Graph) {
+  const prevNodes = new Map(prev.nodes.map(n => [n.id, n]));
+  for (const node of next.nodes) {
+    const prevNode = prevNodes.get(node.id);
+    if (prevNode && prevNode !== node) {
+      node.x = prevNode.x;
+      node.y = prevNode.y;
+    }
+  }
+
+  // Groups are sized by the layout, unlike nodes.
+  const prevGroups = new Map((prev.groups || []).map(g => [g.id, g]));
+  for (const group of (next.groups || [])) {
+    const prevGroup = prevGroups.get(group.id);
+    if (prevGroup && prevGroup !== group) {
+      group.x = prevGroup.x;
+      group.y = prevGroup.y;
+      group.width = prevGroup.width;
+      group.height = prevGroup.height;
+    }
+  }
+
+  const prevEdges = getEdgesByKey(prev.edges);
+  for (const [key, edge] of getEdgesByKey(next.edges)) {
+    const prevEdge = prevEdges.get(key);
+    if (prevEdge && prevEdge !== edge) {
+      edge.points = prevEdge.points;
+      edge.labelPosition = prevEdge.labelPosition;
+    }
+  }
+}
+
+/**
+ * Returns the positions of the nodes of the new graph that the diff left
+ * unchanged, keyed by node id, for the layout to anchor them at. Nodes without
+ * positions are left out.
+ */
+export function getAnchors(graph: Graph, diff: GraphDiff): Map<string, Point> {
+  const changed = new Set([...diff.addedNodes, ...diff.changedNodes]);
+  const anchors = new Map<string, Point>();
+  for (const node of graph.nodes) {
+    if (!changed.has(node) && node.x !== undefined && node.y !== undefined) {
+      anchors.set(node.id, {x: node.x, y: node.y});
+    }
+  }
+  return anchors;
+}
+
+/**
+ * Returns the edges keyed by id, or else by the ids of the nodes they join
+ * along with their order among the edges joining those nodes.
+ */
+function getEdgesByKey(edges: Edge[]): Map<string, Edge> {
+  const counts = new Map<string, number>();
+  const keyed = new Map<string, Edge>();
+  for (const edge of edges) {
+    if (edge.id !== undefined) {
+      keyed.set(`id:${edge.id}`, edge);
+      continue;
+    }
+
+    const nodes = JSON.stringify([edge.src.id, edge.dest.id]);
+    const count = counts.get(nodes) || 0;
+    counts.set(nodes, count + 1);
+    keyed.set(`${nodes}:${count}`, edge);
+  }
+  return keyed;
+}
+
+/**
+ * Returns true if two versions of a node or edge have the same properties,
+ * ignoring those set by the layout. Values such as data and ports are compared
+ * structurally, so that graphs rebuilt from scratch on every update only
+ * report what really changed. The nodes joined by edges are compared by id.
+ */
+function isSameElement(prev: Node|Edge, next: Node|Edge): boolean {
+  if (prev === next) {
+    return true;
+  }
+
+  const prevProps = prev as unknown as Record<string, unknown>;
+  const nextProps = next as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(prevProps), ...Object.keys(nextProps)]);
+  for (const key of keys) {
+    if (LAYOUT_PROPERTIES.has(key)) {
+      continue;
+    }
+
+    const prevValue = prevProps[key];
+    const nextValue = nextProps[key];
+    if ((key === 'src' || key === 'dest') &&
+        (prevValue as Node).id === (nextValue as Node).id) {
+      continue;
+    }
+    if (!isEqualValue(prevValue, nextValue)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Returns true if two values are equal, comparing arrays and plain objects by
+ * their contents. Values that contain themselves are compared by reference
+ * once the cycle is reached.
+ */
+function isEqualValue(
+    a: unknown, b: unknown, visiting = new Set<unknown>()): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (!isPlainContainer(a) || !isPlainContainer(b) ||
+      Array.isArray(a) !== Array.isArray(b) || visiting.has(a)) {
+    return false;
+  }
+
+  const aProps = a as Record<string, unknown>;
+  const bProps = b as Record<string, unknown>;
+  const keys = Object.keys(aProps);
+  if (keys.length !== Object.keys(bProps).length) {
+    return false;
+  }
+
+  visiting.add(a);
+  const equal = keys.every(
+      key => Object.prototype.hasOwnProperty.call(bProps, key) &&
+          isEqualValue(aProps[key], bProps[key], visiting));
+  visiting.delete(a);
+  return equal;
+}
+
+/**
+ * Returns true if the value is an array or an object literal, whose contents
+ * can be compared.
+ */
+function isPlainContainer(value: unknown): value is object {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -21,7 +21,7 @@ import {MatIconModule} from '@angular/material/icon';
 import {MatLegacyButtonModule} from '@angular/material/legacy-button';
 import {MatLegacyTooltipModule} from '@angular/material/legacy-tooltip';
 
-import {EdgePipe} from './edge_pipe';
+import {EdgePipe, EdgeStylePipe} from './edge_pipe';
 import {GraphComponent} from './graph_component';
 import {WindowModule} from './window/window_module';
 
@@ -38,10 +38,12 @@ import {WindowModule} from './window/window_module';
   ],
   declarations: [
     EdgePipe,
+    EdgeStylePipe,
     GraphComponent,
   ],
   exports: [
     EdgePipe,
+    EdgeStylePipe,
     GraphComponent,
   ],
 })
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Edge, type Graph, Node} from './model';
+
+/**
+ * @fileOverview Utilities for working with groups: nesting them within each
+ * other and collapsing them into single summary nodes.
+ */
+
+/**
+ * The width of the summary node shown in place of a collapsed group.
+ */
+export const COLLAPSED_GROUP_WIDTH = 160;
+
+/**
+ * The height of the summary node shown in place of a collapsed group.
+ */
+export const COLLAPSED_GROUP_HEIGHT = 48;
+
+/**
+ * A graph in which collapsed groups have replaced their contents.
+ */
+export interface CollapsedGraph {
+  /** The graph to display. */
+  graph: Graph;
+
+  /** Summary nodes standing in for collapsed groups. */
+  summaries: Set<Node>;
+
+  /** Edges created by rerouting edges onto collapsed groups. */
+  reroutedEdges: Set<Edge>;
+}
+
+/**
+ * Returns a map from the id of every node or group contained in a group, to
+ * the id of that group. Groups may contain other groups by listing their id
+ * in children. If an id is listed by several groups, the first one wins.
+ */
+export function getGroupParents(groups: Node[]): Map<string, string> {
+  const parents = new Map<string, string>();
+  for (const group of groups) {
+    for (const childId of (group.children || [])) {
+      if (!parents.has(childId) && childId !== group.id) {
+        parents.set(childId, group.id);
+      }
+    }
+  }
+  return parents;
+}
+
+/**
+ * Returns the ids of the groups containing the given node or group, from the
+ * innermost to the outermost.
+ */
+export function getGroupAncestors(
+    id: string, parents: Map<string, string>): string[] {
+  const ancestors: string[] = [];
+  let parent = parents.get(id);
+
+  // Guard against groups that (indirectly) contain themselves.
+  while (parent !== undefined && ancestors.indexOf(parent) === -1) {
+    ancestors.push(parent);
+    parent = parents.get(parent);
+  }
+  return ancestors;
+}
+
+/**
+ * Returns how deeply every group is nested, keyed by group id. Top level
+ * groups have a depth of 0, groups within them 1, and so on.
+ */
+export function getGroupDepths(groups: Node[]): Map<string, number> {
+  const parents = getGroupParents(groups);
+  const depths = new Map<string, number>();
+  for (const group of groups) {
+    depths.set(group.id, getGroupAncestors(group.id, parents).length);
+  }
+  return depths;
+}
+
+/**
+ * Returns the graph as it should be displayed, with every collapsed group
+ * replaced by a summary node.
+ *
+ * - Descendants of a collapsed group, including nested groups, are hidden. A
+ *   collapsed group within another collapsed group is hidden too.
+ * - Edges to or from a hidden node are rerouted to the summary node of its
+ *   outermost collapsed group. Rerouted edges connecting the same pair of
+ *   nodes are merged into one.
+ * - Edges between descendants of the same collapsed group are hidden.
+ *
+ * Summary nodes from a previous call may be supplied so that they are reused
+ * and keep their positions. If no group is collapsed, the graph itself is
+ * returned.
+ */
+export function collapseGroups(
+    graph: Graph,
+    isCollapsed: (group: Node) => boolean,
+    previousSummaries: Iterable<Node> = [],
+    ): CollapsedGraph {
+  const groups = graph.groups || [];
+  const collapsedIds = new Set(groups.filter(isCollapsed).map(g => g.id));
+  if (collapsedIds.size === 0) {
+    return {graph, summaries: new Set(), reroutedEdges: new Set()};
+  }
+
+  // Returns the outermost collapsed group containing the id, if any.
+  const parents = getGroupParents(groups);
+  const getCollapsedAncestor = (id: string) => {
+    const ancestors = getGroupAncestors(id, parents);
+    return ancestors.reverse().find(ancestor => collapsedIds.has(ancestor));
+  };
+
+  const previous = new Map<string, Node>();
+  for (const summary of previousSummaries) {
+    previous.set(summary.id, summary);
+  }
+
+  // Create summary nodes for the collapsed groups that are not hidden.
+  const summaries = new Set<Node>();
+  const summariesById = new Map<string, Node>();
+  for (const group of groups) {
+    if (!collapsedIds.has(group.id) ||
+        getCollapsedAncestor(group.id) !== undefined) {
+      continue;
+    }
+    const summary = previous.get(group.id) || createSummaryNode(group);
+    summary.children = group.children;
+    summary.data = group.data;
+    summaries.add(summary);
+    summariesById.set(group.id, summary);
+  }
+
+  // Map every hidden node to the summary node replacing it.
+  const replacements = new Map<string, Node>();
+  for (const node of graph.nodes) {
+    const ancestor = getCollapsedAncestor(node.id);
+    if (ancestor !== undefined) {
+      replacements.set(node.id, summariesById.get(ancestor)!);
+    }
+  }
+
+  const nodes = [
+    ...graph.nodes.filter(node => !replacements.has(node.id)),
+    ...summaries,
+  ];
+
+  const edges: Edge[] = [];
+  const reroutedEdges = new Set<Edge>();
+  const reroutedKeys = new Set<string>();
+  for (const edge of graph.edges) {
+    const src = replacements.get(edge.src.id) || edge.src;
+    const dest = replacements.get(edge.dest.id) || edge.dest;
+
+    if (src === edge.src && dest === edge.dest) {
+      edges.push(edge);
+      continue;
+    }
+
+    // Both ends are hidden within the same collapsed group.
+    if (src === dest) {
+      continue;
+    }
+
+    const key = JSON.stringify([src.id, dest.id]);
+    if (reroutedKeys.has(key)) {
+      continue;
+    }
+    reroutedKeys.add(key);
+
+    const rerouted =
+        {src, dest, points: [], label: edge.label, data: edge.data};
+    edges.push(rerouted);
+    reroutedEdges.add(rerouted);
+  }
+
+  return {
+    graph: {
+      nodes,
+      edges,
+      groups: groups.filter(
+          group => !collapsedIds.has(group.id) &&
+              getCollapsedAncestor(group.id) === undefined),
+    },
+    summaries,
+    reroutedEdges,
+  };
+}
+
+/**
+ * Creates the summary node for a collapsed group, initially placed at the
+ * center of the group.
+ */
+function createSummaryNode(group: Node): Node {
+  return {
+    id: group.id,
+    x: group.x,
+    y: group.y,
+    width: COLLAPSED_GROUP_WIDTH,
+    height: COLLAPSED_GROUP_HEIGHT,
+  };
+}
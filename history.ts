@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Edge, Node} from './model';
+
+/**
+ * @fileOverview Undo/redo history for edits made to the graph topology.
+ */
+
+/**
+ * The maximum number of mutations kept in the undo stack. Older mutations are
+ * dropped once this is exceeded.
+ */
+const DEFAULT_MAX_HISTORY_SIZE = 100;
+
+/**
+ * A reversible change to the topology of a graph, described as the elements
+ * it added and removed.
+ */
+export interface GraphMutation {
+  addedNodes: Node[];
+  addedEdges: Edge[];
+  removedNodes: Node[];
+  removedEdges: Edge[];
+}
+
+/**
+ * Keeps track of mutations made to a graph so they can be undone and redone.
+ *
+ * The history only records mutations: it is up to the caller to apply the
+ * mutations returned from undo() and redo() to the graph.
+ */
+export class GraphHistory {
+  /** Mutations that can be undone, most recent last. */
+  private readonly undoStack: GraphMutation[] = [];
+
+  /** Mutations that have been undone and can be redone, most recent last. */
+  private readonly redoStack: GraphMutation[] = [];
+
+  constructor(private readonly maxSize = DEFAULT_MAX_HISTORY_SIZE) {}
+
+  /**
+   * Records a mutation that was just applied to the graph. Recording a new
+   * mutation discards anything that could have been redone.
+   */
+  record(mutation: GraphMutation) {
+    this.undoStack.push(mutation);
+    this.redoStack.length = 0;
+
+    if (this.undoStack.length > this.maxSize) {
+      this.undoStack.shift();
+    }
+  }
+
+  /**
+   * Returns the mutation that reverts the most recent change, or undefined if
+   * there is nothing to undo.
+   */
+  undo(): GraphMutation|undefined {
+    const mutation = this.undoStack.pop();
+    if (!mutation) {
+      return undefined;
+    }
+    this.redoStack.push(mutation);
+    return invertMutation(mutation);
+  }
+
+  /**
+   * Returns the mutation that re-applies the most recently undone change, or
+   * undefined if there is nothing to redo.
+   */
+  redo(): GraphMutation|undefined {
+    const mutation = this.redoStack.pop();
+    if (!mutation) {
+      return undefined;
+    }
+    this.undoStack.push(mutation);
+    return mutation;
+  }
+
+  /** Returns true if there is a mutation that can be undone. */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /** Returns true if there is a mutation that can be redone. */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Forgets all recorded mutations. */
+  clear() {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+  }
+}
+
+/**
+ * Returns a mutation that reverses the provided one.
+ */
+export function invertMutation(mutation: GraphMutation): GraphMutation {
+  return {
+    addedNodes: mutation.removedNodes,
+    addedEdges: mutation.removedEdges,
+    removedNodes: mutation.addedNodes,
+    removedEdges: mutation.addedEdges,
+  };
+}
@@ -0,0 +1,529 @@
+/**
+ * @license
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GraphLabel, graphlib, layout} from 'dagre';  // from //third_party/javascript/typings/dagre
+
+import {getGroupAncestors, getGroupParents} from './groups';
+import {Edge, type Graph, type LayoutOptions, Node, Point, RankAlignment} from './model';
+import {getEdgeEndpoints, isHorizontal} from './paths';
+
+/**
+ * @fileOverview Layout engines that position the nodes, groups and edges of a
+ * graph.
+ */
+
+/**
+ * Computes positions for the elements of a graph.
+ *
+ * Engines must not modify the graph they are given: the graph component
+ * applies the returned positions itself. Engines that need configuration
+ * beyond LayoutOptions should accept it through their constructor.
+ *
+ * Engines may return a promise to compute the layout asynchronously. The graph
+ * stays in its loading state until the promise resolves, and results for a
+ * graph that has since been replaced or edited are discarded.
+ *
+ * Engines may also be given anchors, the positions of nodes keyed by node id,
+ * that they should keep those nodes at where possible. Unlike pinned nodes,
+ * the rest of the layout is moved to fit around anchored nodes. The graph
+ * component anchors the nodes left unchanged by incremental updates, and moves
+ * the layout as a whole for any anchored nodes that an engine doesn't hold.
+ */
+export interface LayoutEngine {
+  layout(
+      graph: Graph,
+      options: LayoutOptions,
+      anchors?: Map<string, Point>,
+      ): LayoutResult|Promise<LayoutResult>;
+}
+
+/**
+ * The positions computed by a layout engine.
+ */
+export interface LayoutResult {
+  /** The center point of every node, keyed by node id. */
+  nodes: Map<string, Point>;
+
+  /** The center point and size of every group, keyed by group id. */
+  groups: Map<string, LayoutBounds>;
+
+  /** The points along every edge, in the same order as graph.edges. */
+  edges: Point[][];
+
+  /**
+   * The center point of the label of every edge, in the same order as
+   * graph.edges. Unset for edges without labels, or if the engine does not
+   * place labels, in which case they are drawn at the middle of their edge.
+   */
+  edgeLabels?: Array<Point|undefined>;
+}
+
+/**
+ * A rectangle described by its center point and dimensions.
+ */
+export interface LayoutBounds extends Point {
+  width: number;
+  height: number;
+}
+
+/**
+ * Padding kept between a group's border and pinned nodes within it.
+ */
+const PINNED_NODE_GROUP_PADDING = 20;
+
+/**
+ * The distance in pixels within which a node counts as being at its anchor.
+ */
+const ANCHOR_TOLERANCE_PX = 0.5;
+
+/**
+ * The maximum number of passes made over the ranks of a graph when reordering
+ * nodes to reduce crossings between edges attached to ports.
+ */
+const MAX_PORT_ORDERING_PASSES = 4;
+
+/**
+ * Lays out graphs using dagre. This is the engine used unless another one is
+ * provided.
+ *
+ * Pinned nodes keep their positions, growing the groups they belong to as
+ * needed. Their edges are drawn directly between their endpoints, as the routes
+ * dagre computes no longer line up with them.
+ *
+ * Dagre orders the nodes within each rank as if edges were attached to the
+ * middle of nodes. When edges are attached to ports, neighboring nodes are
+ * then swapped where that reduces crossings between edges, and their edges are
+ * also drawn directly.
+ *
+ * The layout is moved so that anchored nodes stay at their anchors. Anchored
+ * nodes that dagre places elsewhere relative to the rest of the graph are held
+ * at their anchors like pinned nodes.
+ */
+export class DagreLayoutEngine implements LayoutEngine {
+  layout(
+      graph: Graph,
+      options: LayoutOptions,
+      anchors = new Map<string, Point>(),
+      ): LayoutResult {
+    const groups = graph.groups || [];
+    const g = new graphlib.Graph(
+        {compound: groups.length > 0, multigraph: !!options.multigraph});
+
+    g.setGraph(convertToDagreOptions(options));
+
+    // Dagre writes its results onto the labels, so copies are given to it to
+    // leave the graph untouched.
+    for (const node of graph.nodes) {
+      g.setNode(node.id, {width: node.width, height: node.height});
+    }
+
+    // In a multigraph, edges are named by their index so that parallel edges
+    // are laid out separately.
+    const getName = (i: number) => options.multigraph ? `${i}` : undefined;
+
+    graph.edges.forEach((edge, i) => {
+      const label = edge.label ?
+          {width: edge.label.width, height: edge.label.height, labelpos: 'c'} :
+          {};
+      g.setEdge(edge.src.id, edge.dest.id, label, getName(i));
+    });
+
+    // Set group nodes
+    for (const group of groups) {
+      g.setNode(group.id, {width: group.width, height: group.height});
+    }
+
+    // Set parent of group nodes's children
+    for (const group of groups) {
+      for (const nodeId of (group.children || [])) {
+        if (g.hasNode(nodeId)) {
+          g.setParent(nodeId, group.id);
+        }
+      }
+    }
+
+    layout(g);
+
+    const nodes = new Map<string, Point>();
+    for (const node of graph.nodes) {
+      const {x, y} = g.node(node.id);
+      nodes.set(node.id, {x, y});
+    }
+
+    const groupBounds = new Map<string, LayoutBounds>();
+    for (const group of groups) {
+      const {x, y, width, height} = g.node(group.id);
+      groupBounds.set(group.id, {x, y, width, height});
+    }
+
+    const edges = graph.edges.map(
+        (edge, i) => g.edge(edge.src.id, edge.dest.id, getName(i)).points);
+
+    // Labels of self-loops are left to be placed alongside the loop, as dagre
+    // does not position them.
+    const edgeLabels = graph.edges.map((edge, i) => {
+      if (!edge.label || edge.src === edge.dest) {
+        return undefined;
+      }
+      const {x, y} = g.edge(edge.src.id, edge.dest.id, getName(i));
+      return {x, y};
+    });
+
+    const result = {nodes, groups: groupBounds, edges, edgeLabels};
+    applyPortOrdering(graph, result, options);
+    applyAnchors(graph, result, anchors);
+    applyPinnedNodes(graph, result);
+    return result;
+  }
+}
+
+/**
+ * Moves the layout result as a whole, so that the nodes with anchors move as
+ * little as possible from them. Nodes that are already at their anchors are
+ * left where they are. Layouts often shift every node when a single one is
+ * added, which this undoes.
+ *
+ * The graph component uses this to stabilize layouts from engines that don't
+ * hold anchored nodes.
+ */
+export function alignLayoutResult(
+    result: LayoutResult, anchors: Map<string, Point>) {
+  const held = new Set<string>();
+  const offsetsX: number[] = [];
+  const offsetsY: number[] = [];
+  for (const [id, anchor] of anchors) {
+    const position = result.nodes.get(id);
+    if (!position) {
+      continue;
+    }
+    if (position.x === anchor.x && position.y === anchor.y) {
+      held.add(id);
+    } else {
+      offsetsX.push(anchor.x - position.x);
+      offsetsY.push(anchor.y - position.y);
+    }
+  }
+  if (offsetsX.length === 0) {
+    return;
+  }
+
+  // The median ignores nodes that really did move, eg in a branch that grew.
+  const offset = {x: median(offsetsX), y: median(offsetsY)};
+  const translate = <T extends Point>(point: T): T => ({
+    ...point,
+    x: point.x + offset.x,
+    y: point.y + offset.y,
+  });
+
+  for (const [id, position] of result.nodes) {
+    if (!held.has(id)) {
+      result.nodes.set(id, translate(position));
+    }
+  }
+  for (const [id, bounds] of result.groups) {
+    result.groups.set(id, translate(bounds));
+  }
+  result.edges = result.edges.map(points => points.map(translate));
+  if (result.edgeLabels) {
+    result.edgeLabels =
+        result.edgeLabels.map(point => point && translate(point));
+  }
+}
+
+/**
+ * Moves the layout result to fit around the anchored nodes, then holds the
+ * anchored nodes that it places elsewhere at their anchors.
+ */
+function applyAnchors(
+    graph: Graph, result: LayoutResult, anchors: Map<string, Point>) {
+  if (anchors.size === 0) {
+    return;
+  }
+
+  alignLayoutResult(result, anchors);
+
+  const displaced = new Map<Node, Point>();
+  for (const node of graph.nodes) {
+    const anchor = anchors.get(node.id);
+    const position = result.nodes.get(node.id);
+    if (!anchor || !position) {
+      continue;
+    }
+    if (Math.abs(position.x - anchor.x) <= ANCHOR_TOLERANCE_PX &&
+        Math.abs(position.y - anchor.y) <= ANCHOR_TOLERANCE_PX) {
+      result.nodes.set(node.id, {x: anchor.x, y: anchor.y});
+    } else {
+      displaced.set(node, anchor);
+    }
+  }
+  holdNodes(graph, result, displaced);
+}
+
+/**
+ * Overrides the layout result for pinned nodes so they keep their current
+ * positions.
+ */
+function applyPinnedNodes(graph: Graph, result: LayoutResult) {
+  const pinned = graph.nodes.filter(isPinned);
+  holdNodes(
+      graph, result, new Map(pinned.map(n => [n, {x: n.x!, y: n.y!}])));
+}
+
+/**
+ * Overrides the layout result to place nodes at the given positions, growing
+ * the groups they belong to as needed. Their edges are left for the graph to
+ * draw directly between their endpoints.
+ */
+function holdNodes(
+    graph: Graph, result: LayoutResult, positions: Map<Node, Point>) {
+  if (positions.size === 0) {
+    return;
+  }
+
+  for (const [node, position] of positions) {
+    result.nodes.set(node.id, {x: position.x, y: position.y});
+  }
+
+  graph.edges.forEach((edge, i) => {
+    if (positions.has(edge.src) || positions.has(edge.dest)) {
+      result.edges[i] = [];
+      if (result.edgeLabels) {
+        result.edgeLabels[i] = undefined;
+      }
+    }
+  });
+
+  // Grow every group containing a held node so that it still encloses it.
+  const parents = getGroupParents(graph.groups || []);
+  for (const [node, position] of positions) {
+    for (const groupId of getGroupAncestors(node.id, parents)) {
+      const bounds = result.groups.get(groupId);
+      if (bounds) {
+        result.groups.set(groupId, growBoundsToFit(bounds, node, position));
+      }
+    }
+  }
+}
+
+/**
+ * Swaps neighboring nodes within ranks of the layout result where that reduces
+ * crossings between edges, taking the ports they are attached to into account.
+ */
+function applyPortOrdering(
+    graph: Graph, result: LayoutResult, options: LayoutOptions) {
+  if (!graph.edges.some(e => e.srcPort !== undefined ||
+                             e.destPort !== undefined)) {
+    return;
+  }
+
+  const axes: RankAxes = isHorizontal(options) ?
+      {flow: 'x', cross: 'y', crossSize: 'height'} :
+      {flow: 'y', cross: 'x', crossSize: 'width'};
+
+  // Copies of the nodes and edges at their laid out positions, which are
+  // moved around while looking for a better order.
+  const positioned = new Map<string, Node>();
+  for (const node of graph.nodes) {
+    const position = result.nodes.get(node.id);
+    if (position) {
+      positioned.set(node.id, {...node, ...position});
+    }
+  }
+  const edges =
+      graph.edges
+          .filter(
+              e => e.src !== e.dest && positioned.has(e.src.id) &&
+                  positioned.has(e.dest.id))
+          .map(e => ({
+                 ...e,
+                 src: positioned.get(e.src.id)!,
+                 dest: positioned.get(e.dest.id)!,
+               }));
+
+  // Nodes within a rank share their position along the flow of the layout.
+  const ranks = new Map<number, Node[]>();
+  for (const node of positioned.values()) {
+    const key = Math.round(node[axes.flow]!);
+    ranks.set(key, [...(ranks.get(key) || []), node]);
+  }
+
+  const parents = getGroupParents(graph.groups || []);
+  const canSwap = (a: Node, b: Node) =>
+      !isPinned(a) && !isPinned(b) && parents.get(a.id) === parents.get(b.id);
+
+  const moved = new Set<string>();
+  for (let pass = 0; pass < MAX_PORT_ORDERING_PASSES; pass++) {
+    let improved = false;
+    for (const rank of ranks.values()) {
+      rank.sort((a, b) => a[axes.cross]! - b[axes.cross]!);
+      const ids = new Set(rank.map(node => node.id));
+      const rankEdges =
+          edges.filter(e => ids.has(e.src.id) !== ids.has(e.dest.id));
+
+      for (let i = 0; i < rank.length - 1; i++) {
+        const [a, b] = [rank[i], rank[i + 1]];
+        if (!canSwap(a, b)) {
+          continue;
+        }
+
+        const crossings = countCrossings(rankEdges, ids, axes, options);
+        swapNodes(a, b, axes);
+        if (countCrossings(rankEdges, ids, axes, options) < crossings) {
+          [rank[i], rank[i + 1]] = [b, a];
+          moved.add(a.id);
+          moved.add(b.id);
+          improved = true;
+        } else {
+          swapNodes(b, a, axes);
+        }
+      }
+    }
+
+    if (!improved) {
+      break;
+    }
+  }
+
+  for (const id of moved) {
+    const {x, y} = positioned.get(id)!;
+    result.nodes.set(id, {x: x!, y: y!});
+  }
+
+  graph.edges.forEach((edge, i) => {
+    if (moved.has(edge.src.id) || moved.has(edge.dest.id)) {
+      result.edges[i] = [];
+      if (result.edgeLabels) {
+        result.edgeLabels[i] = undefined;
+      }
+    }
+  });
+}
+
+/**
+ * The axis along the flow of a layout, and the axis across it that the nodes
+ * within a rank are spread along.
+ */
+interface RankAxes {
+  flow: 'x'|'y';
+  cross: 'x'|'y';
+  crossSize: 'width'|'height';
+}
+
+/**
+ * Counts the pairs of edges that cross between a rank and the nodes they
+ * connect it to. Every edge must have exactly one end within the rank.
+ */
+function countCrossings(
+    edges: Edge[], rankIds: Set<string>, axes: RankAxes,
+    options: LayoutOptions): number {
+  const ends = edges.map(edge => {
+    const {output, input} = getEdgeEndpoints(edge, options);
+    const [near, far] =
+        rankIds.has(edge.src.id) ? [output, input] : [input, output];
+    return {
+      near: near[axes.cross],
+      far: far[axes.cross],
+      side: Math.sign(far[axes.flow] - near[axes.flow]),
+    };
+  });
+
+  // Edges on the same side of the rank cross if their ends are in opposite
+  // orders at either end.
+  let crossings = 0;
+  for (let i = 0; i < ends.length; i++) {
+    for (let j = i + 1; j < ends.length; j++) {
+      if (ends[i].side === ends[j].side &&
+          (ends[i].near - ends[j].near) * (ends[i].far - ends[j].far) < 0) {
+        crossings++;
+      }
+    }
+  }
+  return crossings;
+}
+
+/**
+ * Swaps the positions of two neighboring nodes within a rank, where a comes
+ * before b. The space the two nodes take up is unchanged.
+ */
+function swapNodes(a: Node, b: Node, axes: RankAxes) {
+  const start = a[axes.cross]! - a[axes.crossSize] / 2;
+  const end = b[axes.cross]! + b[axes.crossSize] / 2;
+  b[axes.cross] = start + b[axes.crossSize] / 2;
+  a[axes.cross] = end - a[axes.crossSize] / 2;
+}
+
+/**
+ * Returns true if the node is pinned to a known position.
+ */
+function isPinned(node: Node): boolean {
+  return !!node.pinned && node.x !== undefined && node.y !== undefined;
+}
+
+/**
+ * Returns the smallest bounds containing both the bounds and the node placed
+ * at the given position, with padding around the node.
+ */
+function growBoundsToFit(
+    bounds: LayoutBounds, node: Node, position: Point): LayoutBounds {
+  const padding = PINNED_NODE_GROUP_PADDING;
+  const left = Math.min(
+      bounds.x - bounds.width / 2, position.x - node.width / 2 - padding);
+  const right = Math.max(
+      bounds.x + bounds.width / 2, position.x + node.width / 2 + padding);
+  const top = Math.min(
+      bounds.y - bounds.height / 2, position.y - node.height / 2 - padding);
+  const bottom = Math.max(
+      bounds.y + bounds.height / 2, position.y + node.height / 2 + padding);
+
+  return {
+    x: (left + right) / 2,
+    y: (top + bottom) / 2,
+    width: right - left,
+    height: bottom - top,
+  };
+}
+
+/**
+ * Converts the graph layout options interface to the structure used by dagre.
+ */
+function convertToDagreOptions(layout: LayoutOptions): GraphLabel {
+  const alignment = layout.rankAlignment === RankAlignment.NONE ?
+      undefined :
+      layout.rankAlignment;
+
+  return {
+    rankdir: layout.rankDirection,
+    align: alignment,
+    ranksep: layout.rankSeparation,
+    nodesep: layout.nodeSeparation,
+    edgesep: layout.edgeSeparation,
+    ranker: layout.ranker,
+    marginx: 0,
+    marginy: 0,
+  };
+}
+
+/**
+ * Returns the median of a non-empty list of numbers.
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ?
+      sorted[middle] :
+      (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {InjectionToken} from '@angular/core';
+
+import {LayoutEngine} from './layout_engine';
+
+/**
+ * @fileOverview The injection token for layout engines, kept apart from the
+ * engines themselves so that they can be loaded without Angular, eg in a web
+ * worker.
+ */
+
+/**
+ * Injection token used to supply a default layout engine to every graph
+ * component in an injector. The graph's layoutEngine input takes precedence
+ * over this.
+ */
+export const LAYOUT_ENGINE = new InjectionToken<LayoutEngine>('LayoutEngine');
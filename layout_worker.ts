@@ -0,0 +1,195 @@
+/**
+ * @license
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DagreLayoutEngine, LayoutEngine, LayoutResult} from './layout_engine';
+import {type Graph, type LayoutOptions, Node, Point} from './model';
+
+/**
+ * @fileOverview Support for computing graph layouts in a web worker, keeping
+ * the main thread responsive while large graphs are laid out.
+ *
+ * The main thread uses a WorkerLayoutEngine, while the worker script forwards
+ * requests to a regular engine with handleLayoutRequests:
+ *
+ * main.ts:
+ *   const worker = new Worker(new URL('./my_layout.worker', import.meta.url));
+ *   engine = new WorkerLayoutEngine(worker);
+ *   <directed-graph [graph]="graph" [layoutEngine]="engine">
+ *
+ * my_layout.worker.ts:
+ *   handleLayoutRequests(self);
+ */
+
+/**
+ * A layout request posted to the worker.
+ */
+interface LayoutRequest {
+  id: number;
+  graph: Graph;
+  options: LayoutOptions;
+  anchors?: Map<string, Point>;
+}
+
+/**
+ * A layout response posted back from the worker. Exactly one of result or
+ * error is set.
+ */
+interface LayoutResponse {
+  id: number;
+  result?: LayoutResult;
+  error?: string;
+}
+
+/**
+ * The parts of a worker's global scope used to receive and answer requests.
+ */
+export interface LayoutWorkerScope {
+  addEventListener(
+      type: 'message', listener: (event: MessageEvent) => void): void;
+  postMessage(message: unknown): void;
+}
+
+/**
+ * A layout engine that delegates to another engine running in a web worker.
+ * The worker must call handleLayoutRequests.
+ */
+export class WorkerLayoutEngine implements LayoutEngine {
+  /** Id to assign to the next request. */
+  private nextRequestId = 0;
+
+  /** Callbacks for requests that have not been answered yet, keyed by id. */
+  private readonly pending = new Map<number, {
+    resolve: (result: LayoutResult) => void,
+    reject: (error: Error) => void,
+  }>();
+
+  private readonly onMessage = (event: MessageEvent) => {
+    const response = event.data as LayoutResponse;
+    const callbacks = this.pending.get(response.id);
+    if (!callbacks) {
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.result) {
+      callbacks.resolve(response.result);
+    } else {
+      callbacks.reject(new Error(`Layout failed in worker: ${response.error}`));
+    }
+  };
+
+  constructor(private readonly worker: Worker) {
+    this.worker.addEventListener('message', this.onMessage);
+  }
+
+  layout(
+      graph: Graph,
+      options: LayoutOptions,
+      anchors?: Map<string, Point>,
+      ): Promise<LayoutResult> {
+    const request: LayoutRequest = {
+      id: this.nextRequestId++,
+      graph: toLayoutGraph(graph),
+      options,
+      anchors,
+    };
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, {resolve, reject});
+      this.worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Terminates the worker. Layouts that are still in progress are rejected.
+   */
+  destroy() {
+    this.worker.removeEventListener('message', this.onMessage);
+    this.worker.terminate();
+    for (const {reject} of this.pending.values()) {
+      reject(new Error('Layout worker was terminated.'));
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Answers layout requests sent by a WorkerLayoutEngine. Call this from the
+ * worker script with the worker's global scope. Uses dagre unless another
+ * engine is provided.
+ */
+export function handleLayoutRequests(
+    scope: LayoutWorkerScope,
+    engine: LayoutEngine = new DagreLayoutEngine(),
+) {
+  scope.addEventListener('message', (event: MessageEvent) => {
+    const {id, graph, options, anchors} = event.data as LayoutRequest;
+    const respond = (response: LayoutResponse) => {
+      scope.postMessage(response);
+    };
+
+    try {
+      Promise.resolve(engine.layout(graph, options, anchors))
+          .then(
+              (result) => {
+                respond({id, result});
+              },
+              (error) => {
+                respond({id, error: String(error)});
+              });
+    } catch (error) {
+      respond({id, error: String(error)});
+    }
+  });
+}
+
+/**
+ * Returns a copy of the graph holding only what is needed for layout. Custom
+ * node and edge data is left out, as it may not be transferable to a worker.
+ */
+function toLayoutGraph(graph: Graph): Graph {
+  const toLayoutNode = (node: Node): Node => ({
+    id: node.id,
+    x: node.x,
+    y: node.y,
+    width: node.width,
+    height: node.height,
+    pinned: node.pinned,
+    children: node.children,
+    ports: node.ports,
+  });
+
+  const nodes = new Map(graph.nodes.map(n => [n, toLayoutNode(n)]));
+  const getLayoutNode = (node: Node) => nodes.get(node) || toLayoutNode(node);
+  const edges = graph.edges.map(edge => ({
+    id: edge.id,
+    src: getLayoutNode(edge.src),
+    dest: getLayoutNode(edge.dest),
+    srcPort: edge.srcPort,
+    destPort: edge.destPort,
+    points: [],
+    label: edge.label ?
+        {width: edge.label.width, height: edge.label.height} :
+        undefined,
+  }));
+
+  return {
+    nodes: [...nodes.values()],
+    edges,
+    groups: graph.groups ? graph.groups.map(toLayoutNode) : undefined,
+  };
+}
@@ -35,12 +35,18 @@ export interface Node<NodeData = unknown> {
   /** A unique id for the node within the graph. */
   id: string;
 
-  /** x position in the svg. (Set by graph. Initial values ignored.) */
+  /** x position in the svg. (Set by graph. Ignored unless pinned.) */
   x?: number;
 
-  /** y position in the svg.  (Set by graph. Initial values ignored.) */
+  /** y position in the svg.  (Set by graph. Ignored unless pinned.) */
   y?: number;
 
+  /**
+   * When true, the layout keeps the node at its x/y position rather than
+   * placing it. Set automatically when the user drags the node.
+   */
+  pinned?: boolean;
+
   /** The width of the node (used for layout calculations) */
   width: number;
 
@@ -50,29 +56,132 @@ export interface Node<NodeData = unknown> {
   /** The list of children node id. */
   children?: string[];
 
+  /** Named points on the node that edges can be attached to. */
+  ports?: NodePort[];
+
   /** Custom data to associate with this node. */
   data?: NodeData;
 }
 
+/**
+ * A named point on a node that edges can be attached to.
+ */
+export interface NodePort {
+  /** A unique id for the port within its node. */
+  id: string;
+
+  /**
+   * Input ports are on the side of the node that edges enter by default (eg
+   * the top for TOP_TO_BOTTOM layouts), and output ports on the opposite side.
+   */
+  type: PortType;
+
+  /**
+   * The position of the port along its side of the node, from 0 at the left
+   * (or top) to 1 at the right (or bottom). When unset, the node's ports of the
+   * same type are spread evenly along the side.
+   */
+  offset?: number;
+}
+
+/**
+ * The position of a port, relative to the top left corner of its node.
+ */
+export interface PortPosition extends Point {
+  port: NodePort;
+}
+
 /**
  * Describes a connection between two nodes in the graph.
  */
 export interface Edge<NodeData = unknown, EdgeData = unknown> {
+  /**
+   * A unique id for the edge within the graph. Optional: edges without one are
+   * told apart by the nodes they join and, between the same pair of nodes, by
+   * the order they are in.
+   */
+  id?: string;
+
   /** The source node. */
   src: Node<NodeData>;
 
   /** The destination node. */
   dest: Node<NodeData>;
 
+  /** The id of the port on the source node that the edge leaves from. */
+  srcPort?: string;
+
+  /** The id of the port on the destination node that the edge enters. */
+  destPort?: string;
+
   /** The points describing the path of the edge. */
   points: Point[];
 
+  /** A label drawn alongside the edge. */
+  label?: EdgeLabel;
+
+  /** The center point of the label in the svg. (Set by graph.) */
+  labelPosition?: Point;
+
   /** Custom data to associate with this node. */
   data?: EdgeData;
 }
 
 /**
- * An event emitted whenever a single create occurs to the graph.
+ * A label drawn alongside an edge. The layout reserves space for the label, so
+ * that it does not overlap nodes.
+ */
+export interface EdgeLabel {
+  /** The text shown by the default edge template. */
+  text?: string;
+
+  /** The width of the label (used for layout calculations) */
+  width: number;
+
+  /** The height of the label (used for layout calculations) */
+  height: number;
+}
+
+/**
+ * The result of an edit validation hook: true to allow the edit, or false (or
+ * the reason, as a string) to reject it.
+ */
+export type EditValidationResult = boolean|string;
+
+/**
+ * Edits made by the user that can be rejected by validation hooks.
+ */
+export enum GraphEditAction {
+  CREATE_EDGE = 'create-edge',
+  CREATE_NODE = 'create-node',
+  DELETE = 'delete',
+}
+
+/**
+ * An event emitted whenever a validation hook rejects an edit.
+ */
+export interface GraphRejectEvent<NodeData = unknown, EdgeData = unknown> {
+  /** The edit that was rejected. */
+  action: GraphEditAction;
+
+  /** The reason returned by the validation hook, if any. */
+  reason?: string;
+
+  /** The node that a rejected edge or node would have been created from. */
+  src?: Node<NodeData>;
+
+  /** The node that a rejected edge would have been created to. */
+  dest?: Node<NodeData>;
+
+  /** The point that a rejected node would have been created at. */
+  point?: Point;
+
+  /** The nodes and edges that were not deleted. */
+  elements?: Array<Node<NodeData>|Edge<NodeData, EdgeData>>;
+}
+
+/**
+ * An event emitted whenever a create occurs to the graph.
  */
 export interface GraphCreateEvent<NodeData = unknown, EdgeData = unknown> {
   /** The new node */
@@ -80,10 +189,16 @@ export interface GraphCreateEvent<NodeData = unknown, EdgeData = unknown> {
 
   /** The new edge */
   edge?: Edge<NodeData, EdgeData>;
+
+  /** Every node created by this operation. */
+  nodes?: Array<Node<NodeData>>;
+
+  /** Every edge created by this operation. */
+  edges?: Array<Edge<NodeData, EdgeData>>;
 }
 
 /**
- * An event emitted whenever a single deletion occurs to the graph.
+ * An event emitted whenever a deletion occurs to the graph.
  */
 export interface GraphDeleteEvent<NodeData = unknown, EdgeData = unknown> {
   /** The deleted node */
@@ -91,10 +206,19 @@ export interface GraphDeleteEvent<NodeData = unknown, EdgeData = unknown> {
 
   /** The deleted edge */
   edge?: Edge<NodeData, EdgeData>;
+
+  /** Every node deleted by this operation. */
+  nodes?: Array<Node<NodeData>>;
+
+  /** Every edge deleted by this operation. */
+  edges?: Array<Edge<NodeData, EdgeData>>;
 }
 
 /**
- * An event emitted whenever an element is selected from the graph.
+ * An event emitted whenever the selection in the graph changes.
+ *
+ * `node` and `edge` refer to the most recently selected element, while
+ * `nodes` and `edges` hold every element in the selection set.
  */
 export interface GraphSelectEvent<NodeData = unknown, EdgeData = unknown> {
   /** The selected node */
@@ -102,6 +226,34 @@ export interface GraphSelectEvent<NodeData = unknown, EdgeData = unknown> {
 
   /** The selected edge */
   edge?: Edge<NodeData, EdgeData>;
+
+  /** All selected nodes. */
+  nodes?: Array<Node<NodeData>>;
+
+  /** All selected edges. */
+  edges?: Array<Edge<NodeData, EdgeData>>;
+}
+
+/**
+ * An event emitted whenever a node is repositioned by the user.
+ */
+export interface GraphMoveEvent<NodeData = unknown> {
+  /** The moved node */
+  node: Node<NodeData>;
+
+  /** The new position of the node */
+  position: Point;
+}
+
+/**
+ * An event emitted whenever a group is expanded or collapsed.
+ */
+export interface GraphGroupToggleEvent<NodeData = unknown> {
+  /** The toggled group */
+  group: Node<NodeData>;
+
+  /** True if the group is now expanded, false if it is now collapsed. */
+  expanded: boolean;
 }
 
 /**
@@ -112,6 +264,21 @@ export interface GraphZoomEvent {
   newScale: number;
 }
 
+/**
+ * The state of the view onto the graph, which can be stored and restored
+ * later, eg across page loads.
+ */
+export interface GraphViewState {
+  /** The x/y amount (in camera space) that the graph is panned by. */
+  pan: Point;
+
+  /** The zoom magnification. */
+  zoom: number;
+
+  /** The id of the selected node, if a node is selected. */
+  selectedId?: string;
+}
+
 /**
  * An x/y position in the graph.
  */
@@ -166,6 +333,91 @@ export interface LayoutOptions {
    * The number of pixels that separate nodes within a layer.
    */
   nodeSeparation?: number;
+
+  /**
+   * When true, multiple edges between the same pair of nodes are each routed
+   * along their own path. Otherwise they share a single path.
+   */
+  multigraph?: boolean;
+
+  /**
+   * How the default edge template draws the path of edges. Defaults to curved.
+   */
+  edgeStyle?: EdgeStyle;
+}
+
+/**
+ * Which relatives of the selected or hovered element are highlighted.
+ */
+export enum HighlightMode {
+  /** Only direct predecessors and successors. */
+  DIRECT = 'direct',
+
+  /** Every ancestor, along with direct successors. */
+  ANCESTORS = 'ancestors',
+
+  /** Every descendant, along with direct predecessors. */
+  DESCENDANTS = 'descendants',
+
+  /** Every ancestor and every descendant. */
+  TRANSITIVE = 'transitive',
+}
+
+/**
+ * The sides of a node that ports can be on.
+ */
+export enum PortType {
+  /** The side that edges enter the node. */
+  INPUT = 'input',
+
+  /** The side that edges leave the node. */
+  OUTPUT = 'output',
+}
+
+/**
+ * Ways to draw the path of an edge.
+ */
+export enum EdgeStyle {
+  /** Smooth curves through the points of the layout. */
+  CURVED = 'curved',
+
+  /** Straight lines between the points of the layout. */
+  STRAIGHT = 'straight',
+
+  /**
+   * Horizontal and vertical lines with rounded corners, following the points
+   * of the layout to avoid passing through nodes. Edges the layout gave no
+   * points, eg those of pinned nodes, are drawn directly between their nodes
+   * and may pass through others.
+   */
+  ORTHOGONAL = 'orthogonal',
+
+  /**
+   * Horizontal and vertical lines with square corners, stepping across once
+   * half way between the nodes, eg for org charts. The points of the layout
+   * are not followed, so edges spanning several ranks may pass through nodes.
+   */
+  STEP = 'step',
+}
+
+/**
+ * Shapes drawn at the ends of edges by the default edge template.
+ */
+export enum EdgeMarker {
+  /** No marker. */
+  NONE = 'none',
+
+  /** A filled triangle. */
+  ARROW = 'arrow',
+
+  /** An unfilled, open ended arrow. */
+  OPEN_ARROW = 'open-arrow',
+
+  /** A filled circle. */
+  DOT = 'dot',
+
+  /** A filled diamond. */
+  DIAMOND = 'diamond',
 }
 
 /**
@@ -15,7 +15,7 @@
  * limitations under the License.
  */
 
-import {Edge, LayoutOptions, Node, Point, RankDirection} from './model';
+import {Edge, EdgeMarker, EdgeStyle, LayoutOptions, Node, NodePort, Point, PortType, RankDirection} from './model';
 
 /**
  * @fileOverview Utility methods to generate svg path strings.
@@ -42,6 +42,39 @@ const SMOOTH_CURVE_FORCE_PX = 2;
  */
 const UNIMPORTANT_POINT_DISTANCE_THRESHOLD_PX = 20;
 
+/**
+ * The distance in pixels that the control points of a self-loop are offset
+ * from the side of its node. The loop itself extends about 3/4 of this.
+ */
+const SELF_LOOP_SIZE_PX = 30;
+
+/**
+ * The extra distance in pixels added to the size of each additional self-loop
+ * on a node, fanning them out so they do not overlap.
+ */
+const SELF_LOOP_SPACING_PX = 15;
+
+/**
+ * The length in pixels of the straight segments that orthogonal and step edges
+ * leave and enter nodes with, before turning.
+ */
+const ORTHOGONAL_STUB_PX = 10;
+
+/** The radius in pixels of the rounded corners of orthogonal edges. */
+const ORTHOGONAL_CORNER_RADIUS_PX = 8;
+
+/** The length in pixels of edge markers, along the direction of the edge. */
+const MARKER_LENGTH_PX = 10;
+
+/** The width in pixels of edge markers, across the direction of the edge. */
+const MARKER_WIDTH_PX = 10;
+
+/**
+ * An end of an edge: the source end leaves the src node, and the target end
+ * enters the dest node.
+ */
+export type EdgeEnd = 'source'|'target';
+
 /**
  * Converts a set of points to a series of lines connecting them.
  */
@@ -57,13 +90,206 @@ export function pointsToLines(points?: Point[]): string {
 
 /**
  * Converts an edge to a SVG path connecting it from src to dest.
+ *
+ * Self-loops (edges from a node to itself) are drawn as loops on the side of
+ * the node. When a node has several, each should be given its own loopIndex,
+ * starting from 0, so that they are fanned out.
  */
 export function curvedPath(
     edge: Edge,
     layout: LayoutOptions = {
       rankDirection: RankDirection.LEFT_TO_RIGHT
     },
+    loopIndex = 0,
     ): string {
+  return createPathFromPointData(getEdgePointData(edge, layout, loopIndex));
+}
+
+/**
+ * Converts an edge to a SVG path connecting it from src to dest, drawn in the
+ * layout's edgeStyle. Self-loops are always drawn as curves.
+ */
+export function edgePath(
+    edge: Edge,
+    layout: LayoutOptions = {
+      rankDirection: RankDirection.LEFT_TO_RIGHT
+    },
+    loopIndex = 0,
+    ): string {
+  const route = getRoutePoints(edge, layout);
+  if (!route) {
+    return curvedPath(edge, layout, loopIndex);
+  }
+
+  return layout.edgeStyle === EdgeStyle.ORTHOGONAL ?
+      roundedLines(route, ORTHOGONAL_CORNER_RADIUS_PX) :
+      pointsToLines(route);
+}
+
+/**
+ * Returns the points where an edge leaves its src node and enters its dest
+ * node: either the ports it is attached to, or the node's default connectors.
+ */
+export function getEdgeEndpoints(edge: Edge, layout: LayoutOptions) {
+  const srcPort = findPort(edge.src, edge.srcPort, PortType.OUTPUT);
+  const destPort = findPort(edge.dest, edge.destPort, PortType.INPUT);
+  return {
+    output: srcPort ? getPortPoint(edge.src, srcPort, layout) :
+                      getConnectorPointsForNode(edge.src, layout).output,
+    input: destPort ? getPortPoint(edge.dest, destPort, layout) :
+                      getConnectorPointsForNode(edge.dest, layout).input,
+  };
+}
+
+/**
+ * Returns the position of a node's port in the svg.
+ */
+export function getPortPoint(
+    node: Node, port: NodePort, layout: LayoutOptions): Point {
+  const {input, output} = getConnectorPointsForNode(node, layout);
+  const connector = port.type === PortType.INPUT ? input : output;
+
+  // Connectors are at the middle of their side of the node.
+  const shift = (getPortOffset(node, port) - 0.5) * getCrossSize(node, layout);
+  return isHorizontal(layout) ? {x: connector.x, y: connector.y + shift} :
+                                {x: connector.x + shift, y: connector.y};
+}
+
+/**
+ * Returns the port of a node with the given id, preferring ports of the given
+ * type, or undefined if there is none.
+ */
+function findPort(node: Node, portId: string|undefined, type: PortType) {
+  if (portId === undefined || !node.ports) {
+    return undefined;
+  }
+  return node.ports.find(port => port.id === portId && port.type === type) ||
+      node.ports.find(port => port.id === portId);
+}
+
+/**
+ * Returns the position of a port along its side of the node, from 0 to 1.
+ */
+function getPortOffset(node: Node, port: NodePort): number {
+  if (port.offset !== undefined) {
+    return port.offset;
+  }
+
+  const sameType = (node.ports || []).filter(p => p.type === port.type);
+  return (sameType.indexOf(port) + 1) / (sameType.length + 1);
+}
+
+/**
+ * Returns true if the edge connects a node to itself.
+ */
+export function isSelfLoop(edge: Edge): boolean {
+  return edge.src === edge.dest;
+}
+
+/**
+ * Returns the point on a self-loop that is furthest from its node, eg to
+ * position the loop's label.
+ */
+export function selfLoopApex(
+    node: Node, layout: LayoutOptions, loopIndex = 0): Point {
+  const {side, size} = getSelfLoopGeometry(node, layout, loopIndex);
+  return createNewPointOffsetBy(side, getSelfLoopVector(layout, size * 0.75));
+}
+
+/**
+ * Converts an edge marker to a SVG path drawn at one end of the edge. The tip
+ * of the marker touches the node at the end of the edge, and the marker is
+ * rotated to follow the edge's path as drawn by curvedPath.
+ */
+export function edgeMarkerPath(
+    edge: Edge,
+    layout: LayoutOptions,
+    marker: EdgeMarker,
+    end: EdgeEnd,
+    loopIndex = 0,
+    ): string {
+  if (marker === EdgeMarker.NONE) {
+    return '';
+  }
+
+  // The marker points along the path, into the node it touches. For curves,
+  // the control points give the direction of the path where it meets the node.
+  let tip: Point;
+  let direction: Vector;
+  const route = getRoutePoints(edge, layout);
+  if (route) {
+    const [before, last] = end === 'target' ?
+        route.slice(-2) :
+        [route[1], route[0]];
+    tip = last;
+    direction = createVectorBetweenPoints(before, tip);
+  } else {
+    const data = getEdgePointData(edge, layout, loopIndex);
+    if (end === 'target') {
+      const last = data[data.length - 1];
+      tip = last.point;
+      direction = createVectorBetweenPoints(last.incomingControlPoint, tip);
+    } else {
+      const first = data[0];
+      tip = first.point;
+      direction = createVectorBetweenPoints(first.outgoingControlPoint, tip);
+    }
+  }
+
+  direction.normalize();
+  if (direction.length() === 0) {
+    direction = getLayoutVector(layout);
+    if (end === 'source') {
+      direction.invert();
+    }
+  }
+
+  // Marker shapes are described pointing along the x axis with their tip at
+  // the origin, then rotated and moved into place.
+  const normal = createPerpendicularVector(direction);
+  const toPathPoint = (x: number, y: number): Point => ({
+    x: tip.x + direction.x * x + normal.x * y,
+    y: tip.y + direction.y * x + normal.y * y,
+  });
+
+  const length = MARKER_LENGTH_PX;
+  const width = MARKER_WIDTH_PX;
+  switch (marker) {
+    case EdgeMarker.ARROW:
+      return polygonPath([
+        toPathPoint(0, 0),
+        toPathPoint(-length, -width / 2),
+        toPathPoint(-length, width / 2),
+      ]);
+    case EdgeMarker.OPEN_ARROW:
+      return pointsToLines([
+        toPathPoint(-length, -width / 2),
+        toPathPoint(0, 0),
+        toPathPoint(-length, width / 2),
+      ]);
+    case EdgeMarker.DIAMOND:
+      return polygonPath([
+        toPathPoint(0, 0),
+        toPathPoint(-length / 2, -width / 2),
+        toPathPoint(-length, 0),
+        toPathPoint(-length / 2, width / 2),
+      ]);
+    case EdgeMarker.DOT:
+    default:
+      return circlePath(toPathPoint(-length / 2, 0), length / 2);
+  }
+}
+
+/**
+ * Returns the point data used to draw an edge from the src node to the dest
+ * node.
+ */
+function getEdgePointData(
+    edge: Edge, layout: LayoutOptions, loopIndex: number): PathPointData[] {
+  if (isSelfLoop(edge)) {
+    return getSelfLoopPointData(edge.src, layout, loopIndex);
+  }
+
   // These are the points that dagre has suggested to connect the nodes.
   // Example: https://github.com/google/angular-directed-graph/images/D90JKX5BsOQ.png
   const points = edge.points;
@@ -75,17 +301,12 @@ export function curvedPath(
   // of the nodes. We don't want this. Instead, we want the first and last
   // points for all edges exiting/entering nodes to be at certain connection
   // points. Example: https://github.com/google/angular-directed-graph/images/UCxBAz9YhWn.png
-  const srcConnectors = getConnectorPointsForNode(edge.src, layout);
-  const destConnectors = getConnectorPointsForNode(edge.dest, layout);
-  points[0] = srcConnectors.output;
-  points[points.length - 1] = destConnectors.input;
+  const {output, input} = getEdgeEndpoints(edge, layout);
+  points[0] = output;
+  points[points.length - 1] = input;
 
-  // Generate metadata about every point in the path, then convert this to
-  // an svg path.
-  const data = createPointData(points, layout);
-  const path = createPathFromPointData(data);
-
-  return path;
+  // Generate metadata about every point in the path.
+  return createPointData(points, layout);
 }
 
 /** Creates a triangle for the pointing tip of an {@link Edge}. */
@@ -356,6 +577,239 @@ function getLayoutVector(layout: LayoutOptions) {
   }
 }
 
+/**
+ * Generates the point data for a self-loop: a single curve that leaves the
+ * side of the node nearer its output connector, and returns to the side nearer
+ * its input connector. Loops are drawn on the right of nodes in vertical
+ * layouts, and below them in horizontal ones, where dagre leaves room for
+ * them.
+ *
+ *   +-----+
+ *   |     X---\
+ *   |     |    |
+ *   |     Y<--/
+ *   +-----+
+ */
+function getSelfLoopPointData(
+    node: Node,
+    layout: LayoutOptions,
+    loopIndex: number,
+    ): PathPointData[] {
+  const {side, size} = getSelfLoopGeometry(node, layout, loopIndex);
+
+  // The ends of the loop are spread along the side of the node, half way
+  // between its center and its input/output connectors.
+  const {input, output} = getConnectorPointsForNode(node, layout);
+  const spread = createVectorBetweenPoints(input, output);
+  spread.multiplyScalar(0.25);
+
+  const start = createNewPointOffsetBy(side, spread);
+  spread.invert();
+  const end = createNewPointOffsetBy(side, spread);
+
+  // The control points also lean away from each other, rounding the loop.
+  const outward = getSelfLoopVector(layout, size);
+  spread.normalize();
+  spread.multiplyScalar(size / 2);
+  const endControlPoint = createNewPointOffsetBy(end, outward);
+  endControlPoint.x += spread.x;
+  endControlPoint.y += spread.y;
+  spread.invert();
+  const startControlPoint = createNewPointOffsetBy(start, outward);
+  startControlPoint.x += spread.x;
+  startControlPoint.y += spread.y;
+
+  return [
+    {
+      point: start,
+      incomingControlPoint: start,
+      outgoingControlPoint: startControlPoint,
+    },
+    {
+      point: end,
+      incomingControlPoint: endControlPoint,
+      outgoingControlPoint: end,
+    },
+  ];
+}
+
+/**
+ * Returns the center of the side of the node that self-loops are drawn on,
+ * and the size of the loop with the given index.
+ */
+function getSelfLoopGeometry(
+    node: Node, layout: LayoutOptions, loopIndex: number) {
+  const center: Point = {x: node.x!, y: node.y!};
+  const halfSize = isHorizontal(layout) ? node.height / 2 : node.width / 2;
+  const side =
+      createNewPointOffsetBy(center, getSelfLoopVector(layout, halfSize));
+  const size = SELF_LOOP_SIZE_PX + loopIndex * SELF_LOOP_SPACING_PX;
+  return {side, size};
+}
+
+/**
+ * Returns a vector of the given length pointing away from nodes, towards the
+ * side that self-loops are drawn on.
+ */
+function getSelfLoopVector(layout: LayoutOptions, length: number) {
+  return isHorizontal(layout) ? new Vector(0, length) : new Vector(length, 0);
+}
+
+/**
+ * Returns true if the layout flows horizontally.
+ */
+export function isHorizontal(layout: LayoutOptions): boolean {
+  return layout.rankDirection === RankDirection.LEFT_TO_RIGHT ||
+      layout.rankDirection === RankDirection.RIGHT_TO_LEFT;
+}
+
+/**
+ * Returns the points of the lines drawn for an edge in the layout's edgeStyle,
+ * or undefined if the edge is drawn as a curve.
+ */
+function getRoutePoints(edge: Edge, layout: LayoutOptions): Point[]|undefined {
+  if (isSelfLoop(edge)) {
+    return undefined;
+  }
+
+  switch (layout.edgeStyle) {
+    case EdgeStyle.STRAIGHT: {
+      const {output, input} = getEdgeEndpoints(edge, layout);
+      return [output, ...edge.points.slice(1, -1), input];
+    }
+    case EdgeStyle.ORTHOGONAL:
+      return getOrthogonalPoints(edge, layout, edge.points.slice(1, -1));
+    case EdgeStyle.STEP:
+      return getOrthogonalPoints(edge, layout, []);
+    case EdgeStyle.CURVED:
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns the corners of a path made of horizontal and vertical lines that
+ * connects an edge's nodes through the given waypoints.
+ *
+ * The path leaves and enters nodes along the direction of the layout, and
+ * turns half way between consecutive waypoints. Where it has to go backwards,
+ * it turns beside the waypoints instead, which the layout has placed clear of
+ * other nodes. For example, in a TOP_TO_BOTTOM layout:
+ *
+ *   +--X--+
+ *   |     |
+ *   +--|--+
+ *      \------\
+ *              |
+ *           +--Y--+
+ *           |     |
+ *           +-----+
+ */
+function getOrthogonalPoints(
+    edge: Edge,
+    layout: LayoutOptions,
+    waypoints: Point[],
+    ): Point[] {
+  // Routes are worked out as if the layout flowed top to bottom, then
+  // transformed back into place.
+  const {toFlow, fromFlow} = getFlowTransforms(layout);
+  const {output, input} = getEdgeEndpoints(edge, layout);
+  const src = toFlow(output);
+  const dest = toFlow(input);
+
+  const start = {x: src.x, y: src.y + ORTHOGONAL_STUB_PX};
+  const end = {x: dest.x, y: dest.y - ORTHOGONAL_STUB_PX};
+  const stops = [start, ...waypoints.map(toFlow), end];
+
+  const route = [src];
+  for (let i = 0; i < stops.length - 1; i++) {
+    const p = stops[i];
+    const q = stops[i + 1];
+    const isFirst = i === 0;
+    const isLast = i === stops.length - 2;
+    route.push(p);
+
+    if (q.y >= p.y) {
+      const middle = (p.y + q.y) / 2;
+      route.push({x: p.x, y: middle}, {x: q.x, y: middle});
+    } else if (isFirst && isLast) {
+      // Goes back around the side of both nodes.
+      const side = Math.max(
+                       p.x + getCrossSize(edge.src, layout) / 2,
+                       q.x + getCrossSize(edge.dest, layout) / 2) +
+          ORTHOGONAL_STUB_PX;
+      route.push({x: side, y: p.y}, {x: side, y: q.y});
+    } else if (isLast) {
+      route.push({x: p.x, y: q.y});
+    } else {
+      route.push({x: q.x, y: p.y});
+    }
+  }
+  route.push(end, dest);
+
+  return removeRedundantPoints(route).map(fromFlow);
+}
+
+/**
+ * Returns the size of a node across the direction of the layout.
+ */
+function getCrossSize(node: Node, layout: LayoutOptions) {
+  return isHorizontal(layout) ? node.height : node.width;
+}
+
+/**
+ * Returns functions that convert points to and from a space where the layout
+ * flows top to bottom.
+ */
+function getFlowTransforms(layout: LayoutOptions) {
+  type Transform = (p: Point) => Point;
+  let toFlow: Transform;
+  let fromFlow: Transform;
+  switch (layout.rankDirection) {
+    case RankDirection.LEFT_TO_RIGHT:
+      toFlow = p => ({x: p.y, y: p.x});
+      fromFlow = p => ({x: p.y, y: p.x});
+      break;
+    case RankDirection.RIGHT_TO_LEFT:
+      toFlow = p => ({x: p.y, y: -p.x});
+      fromFlow = p => ({x: -p.y, y: p.x});
+      break;
+    case RankDirection.BOTTOM_TO_TOP:
+      toFlow = p => ({x: p.x, y: -p.y});
+      fromFlow = p => ({x: p.x, y: -p.y});
+      break;
+    case RankDirection.TOP_TO_BOTTOM:
+    default:
+      toFlow = p => ({...p});
+      fromFlow = p => ({...p});
+      break;
+  }
+  return {toFlow, fromFlow};
+}
+
+/**
+ * Removes points that repeat the point before them, or lie along a straight
+ * line between their neighbors.
+ */
+function removeRedundantPoints(points: Point[]): Point[] {
+  const result: Point[] = [];
+  for (const point of points) {
+    const prior = result[result.length - 1];
+    if (prior && prior.x === point.x && prior.y === point.y) {
+      continue;
+    }
+
+    const beforePrior = result[result.length - 2];
+    if (beforePrior &&
+        ((beforePrior.x === prior.x && prior.x === point.x) ||
+         (beforePrior.y === prior.y && prior.y === point.y))) {
+      result.pop();
+    }
+    result.push(point);
+  }
+  return result;
+}
+
 /**
  * Given a node, returns the points on it where edges are allowed to be
  * connected.
@@ -416,6 +870,61 @@ function createPathFromPointData(points: PathPointData[]): string {
   return segments.join(' ');
 }
 
+/**
+ * Returns a SVG path string for a closed shape with the given corners.
+ */
+function polygonPath(points: Point[]) {
+  return `${pointsToLines(points)} Z`;
+}
+
+/**
+ * Returns a SVG path string for a circle, drawn as two half circle arcs.
+ */
+function circlePath(center: Point, radius: number) {
+  const left = `${center.x - radius},${center.y}`;
+  const right = `${center.x + radius},${center.y}`;
+  const arc = `A ${radius},${radius} 0 1,0`;
+  return `M ${left} ${arc} ${right} ${arc} ${left} Z`;
+}
+
+/**
+ * Converts a set of points to a series of lines connecting them, rounding the
+ * corners between the lines.
+ */
+function roundedLines(points: Point[], radius: number): string {
+  if (points.length < 2) {
+    return '';
+  }
+
+  const segments = [moveTo(points[0])];
+  for (let i = 1; i < points.length - 1; i++) {
+    const prior = points[i - 1];
+    const corner = points[i];
+    const next = points[i + 1];
+
+    // Corners are cut short on short lines, so that they don't overlap.
+    const cornerRadius = Math.min(
+        radius,
+        createVectorBetweenPoints(prior, corner).length() / 2,
+        createVectorBetweenPoints(corner, next).length() / 2);
+
+    const toPrior = createVectorBetweenPoints(corner, prior);
+    toPrior.normalize();
+    toPrior.multiplyScalar(cornerRadius);
+
+    const toNext = createVectorBetweenPoints(corner, next);
+    toNext.normalize();
+    toNext.multiplyScalar(cornerRadius);
+
+    segments.push(lineTo(createNewPointOffsetBy(corner, toPrior)));
+    segments.push(
+        quadraticBezierTo(createNewPointOffsetBy(corner, toNext), corner));
+  }
+  segments.push(lineTo(points[points.length - 1]));
+
+  return segments.join(' ');
+}
+
 /**
  * Returns an SVG path string that moves the path cursor to the given point.
  */
@@ -423,6 +932,22 @@ function moveTo(p: Point) {
   return `M ${p.x},${p.y}`;
 }
 
+/**
+ * Returns a SVG path string that draws a line from the current path point to
+ * a new point.
+ */
+function lineTo(p: Point) {
+  return `L ${p.x},${p.y}`;
+}
+
+/**
+ * Returns a SVG quadratic bezier path string that connects from the current
+ * path point to a new point.
+ */
+function quadraticBezierTo(dest: Point, controlPoint: Point) {
+  return `Q ${controlPoint.x},${controlPoint.y} ${dest.x},${dest.y}`;
+}
+
 /**
  * Returns a SVG cubic bezier path string that connects from the current path
  * point to a new point.